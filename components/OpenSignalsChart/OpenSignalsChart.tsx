@@ -1,52 +1,132 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { Button } from "@/components/ui/button"
-import type { LabelSegment } from "./types"
+import type {
+  ChannelKey,
+  ChannelLayout,
+  ChartRenderer,
+  EditLogEntry,
+  EditSnapshot,
+  LabelDefinition,
+  LabelExportFormat,
+  LabelSegment,
+  SavedSignal,
+  SessionDraft,
+  SignalExportFormat,
+  SignalGap,
+  SignalSnapshot,
+  SyncMarker,
+} from "./types"
 import { useChartData } from "./hooks/useChartData"
 import { useChartNavigation } from "./hooks/useChartNavigation"
 import { useSegmentManagement } from "./hooks/useSegmentManagement"
+import { getEditLog, useEditHistory } from "./hooks/useEditHistory"
+import { useLabelingMode } from "./hooks/useLabelingMode"
+import { useRangeSelection } from "./hooks/useRangeSelection"
+import { useSessionAutosave } from "./hooks/useSessionAutosave"
 import { FileUpload } from "./components/FileUpload"
 import { ChartControls } from "./components/ChartControls"
 import { SegmentForm } from "./components/SegmentForm"
-import { ChartView } from "./components/ChartView"
-import { getLabelColor } from "./utils"
-
-const padNumber = (value: number, length = 2) => value.toString().padStart(length, "0")
-
-const formatLocalDate = (date: Date) => {
-  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(date.getDate())}`
-}
-
-const formatLocalTimeWithMs = (date: Date) => {
-  return `${padNumber(date.getHours())}:${padNumber(date.getMinutes())}:${padNumber(date.getSeconds())}.${padNumber(date.getMilliseconds(), 3)}`
-}
+import { ChartView, type ChartViewProps } from "./components/ChartView"
+import { CanvasChartView } from "./components/CanvasChartView"
+import { ChannelSelector } from "./components/ChannelSelector"
+import { GapReport } from "./components/GapReport"
+import { LoadingProgress } from "./components/LoadingProgress"
+import { HistoryPanel } from "./components/HistoryPanel"
+import { LabelExport } from "./components/LabelExport"
+import { SignalExport } from "./components/SignalExport"
+import { ClockAlignment } from "./components/ClockAlignment"
+import { SyncMarkers } from "./components/SyncMarkers"
+import { LabelSchemaEditor, type LabelRename } from "./components/LabelSchemaEditor"
+import { UnknownLabels } from "./components/UnknownLabels"
+import { LabelingToolbar } from "./components/LabelingToolbar"
+import { SegmentLabelPicker } from "./components/SegmentLabelPicker"
+import { SegmentContextMenu, type SegmentContextMenuState } from "./components/SegmentContextMenu"
+import { SegmentSelectionPanel } from "./components/SegmentSelectionPanel"
+import { SegmentTable } from "./components/SegmentTable"
+import {
+  buildChannelChartConfig,
+  downloadBlob,
+  downloadTextFile,
+  getDefaultVisibleChannels,
+  getExportTimestamp,
+  getLabelColor,
+  getMergeRange,
+  getSegmentIndicesInRange,
+  insertSegment,
+  isEventFromBrush,
+  serializeKeypressLabels,
+  splitSegment,
+} from "./utils"
+import { serializeOpenSignalsText } from "./opensignals"
+import { buildProjectArchive } from "./projectArchive"
+import { buildLabelEvents, serializeLabelEvents } from "./labelEvents"
+import { isEdfFile, serializeEdf } from "./edf"
+import {
+  composeClockCorrection,
+  estimateClockOffset,
+  formatDriftPpm,
+  formatOffsetMs,
+  matchLabelEvents,
+  shiftSegments,
+  type ClockShift,
+} from "./alignment"
+import {
+  computeStoreRanges,
+  getSampleRangeForTimes,
+  getSampleTime,
+  getTimeRange,
+  getOverviewPoints,
+  getViewportPoints,
+  sliceSignalStore,
+} from "./signalStore"
+import { convertPoints, convertRanges, serializeConvertedCsv } from "./units"
+import { getDefaultSyncTrack, getSyncTracks, matchLabelsToMarkers } from "./syncMarkers"
+import { getNextLabelColor, getUnknownLabels } from "./labelSchema"
+import { DEFAULT_LABEL_SCHEMA } from "./constants"
 
 export function OpenSignalsChart() {
   const {
     data,
-    rawData,
+    signalStore,
+    channels,
+    signalGaps,
+    fillGaps,
     labelSegments,
+    labelSchema,
     loading,
+    loadProgress,
     error,
-    yRange,
+    yRanges,
     signalFile,
     keypressFile,
+    sourceFiles,
     signalInputRef,
     keypressInputRef,
     signalStartTimestampMs,
     keypressStartTimestampMs,
     keypressSamplingRate,
+    clockCorrection,
     signalSamplingRate,
     signalDeviceId,
+    signalDevices,
     setData,
-    setRawData,
+    setSignalStore,
     setLabelSegments,
+    setLabelSchema,
+    setSignalGaps,
+    setFillGaps,
     setError,
-    setYRange,
+    setYRanges,
     setSignalStartTimestampMs,
     setKeypressStartTimestampMs,
+    setClockCorrection,
+    setChannelSensor,
     processFiles,
+    restoreSession,
+    loadProject,
+    cancelLoading,
     handleSignalFileChange,
     handleKeypressFileChange,
     resetAll,
@@ -62,18 +142,188 @@ export function OpenSignalsChart() {
     handleBrushChange,
   } = useChartNavigation(data)
 
+  const [selectedSegmentIndices, setSelectedSegmentIndices] = useState<number[]>([])
+  // Single-segment actions and readouts apply when exactly one segment is selected
+  const selectedSegmentIndex = selectedSegmentIndices.length === 1 ? selectedSegmentIndices[0] : null
+  // Edit log inherited from a resumed session or an opened project
+  const [priorEditLog, setPriorEditLog] = useState<EditLogEntry[]>([])
+
+  // Latest segments, updated synchronously so rapid edits between renders build on each other
+  const latestSegmentsRef = useRef(labelSegments)
+  useEffect(() => {
+    latestSegmentsRef.current = labelSegments
+  }, [labelSegments])
+  const latestClockRef = useRef(clockCorrection)
+  useEffect(() => {
+    latestClockRef.current = clockCorrection
+  }, [clockCorrection])
+
+  // Every snapshot carries the signal it was taken on, so restoring any of them keeps labels and signal in step
+  const captureSignal = (): SignalSnapshot => ({
+    store: signalStore,
+    gaps: signalGaps,
+    ranges: yRanges,
+    signalStartTimestampMs,
+    keypressStartTimestampMs,
+  })
+
+  const applyEditSnapshot = (snapshot: EditSnapshot) => {
+    const clock = { clockOffsetMs: snapshot.clockOffsetMs, clockDriftPpm: snapshot.clockDriftPpm }
+    latestSegmentsRef.current = snapshot.labelSegments
+    latestClockRef.current = clock
+    setLabelSegments(snapshot.labelSegments)
+    setClockCorrection(clock)
+    setSelectedSegmentIndices([])
+
+    // Label edits keep the current store; only steps across a crop swap it
+    const { signal } = snapshot
+    if (signal.store !== signalStore) {
+      const channelKeys = channels.map((channel) => channel.key)
+      setSignalStore(signal.store)
+      setData(getOverviewPoints(signal.store, channelKeys))
+      setSignalGaps(signal.gaps)
+      setYRanges(signal.ranges)
+      setSignalStartTimestampMs(signal.signalStartTimestampMs)
+      setKeypressStartTimestampMs(signal.keypressStartTimestampMs)
+
+      const [newTimeMin, newTimeMax] = getTimeRange(signal.store)
+      setXDomain([newTimeMin, newTimeMin + Math.min(newTimeMax - newTimeMin, 10)])
+    }
+  }
+
+  const {
+    historyEntries,
+    historyCursor,
+    canUndo,
+    canRedo,
+    recordEdit,
+    undo,
+    redo,
+    jumpTo,
+    clearHistory,
+  } = useEditHistory(applyEditSnapshot)
+
+  const editSegments = (
+    description: string,
+    update: (prev: LabelSegment[]) => LabelSegment[],
+    coalesceKey?: string
+  ) => {
+    const before = latestSegmentsRef.current
+    const after = update(before)
+    const clock = latestClockRef.current
+    const signal = captureSignal()
+    latestSegmentsRef.current = after
+    setLabelSegments(after)
+    recordEdit(
+      description,
+      { labelSegments: before, ...clock, signal },
+      { labelSegments: after, ...clock, signal },
+      coalesceKey
+    )
+  }
+
+  // Moves every label by a shift measured on the current time base and folds it into the clock correction
+  const applyClockShift = (description: string, shift: ClockShift, coalesceKey?: string) => {
+    const signal = captureSignal()
+    const before: EditSnapshot = { labelSegments: latestSegmentsRef.current, ...latestClockRef.current, signal }
+    const originSeconds = signalStore.sourceOffset / signalStore.samplingRate - signalStore.startTime
+    const clock = composeClockCorrection(latestClockRef.current, shift, originSeconds)
+    const after: EditSnapshot = {
+      labelSegments: shiftSegments(before.labelSegments, shift.offsetSeconds, shift.drift),
+      ...clock,
+      signal,
+    }
+    latestSegmentsRef.current = after.labelSegments
+    latestClockRef.current = clock
+    setLabelSegments(after.labelSegments)
+    setClockCorrection(clock)
+    recordEdit(description, before, after, coalesceKey)
+  }
+
+  // Shifts every label so the total offset from the keypress clock becomes `offsetMs`
+  const applyClockOffset = (offsetMs: number, coalesceKey?: string) => {
+    const deltaSeconds = (offsetMs - latestClockRef.current.clockOffsetMs) / 1000
+    if (deltaSeconds === 0) return
+    const description = `Align label clock (${formatOffsetMs(offsetMs)})`
+    applyClockShift(description, { offsetSeconds: deltaSeconds, drift: 0 }, coalesceKey)
+  }
+
+  const applyClockDrift = (shift: ClockShift) => {
+    applyClockShift(`Correct clock drift (${formatDriftPpm(shift.drift * 1e6)})`, shift)
+  }
+
+  // Pages the view along when the playhead leaves it, leaving some lead-in on the side it enters from
+  const revealTime = (time: number) => {
+    if (data.length === 0) return
+
+    const timeMin = data[0].timestamp
+    const timeMax = data[data.length - 1].timestamp
+    const domain = xDomain || [timeMin, timeMax]
+    if (time >= domain[0] && time <= domain[1]) return
+    const windowSize = domain[1] - domain[0]
+    const lead = time > domain[1] ? 0.1 : 0.9
+    const newStart = Math.min(Math.max(timeMin, time - windowSize * lead), timeMax - windowSize)
+    setXDomain([newStart, newStart + windowSize])
+  }
+
+  const handlePaintSegment = (label: string, start: number, end: number) => {
+    editSegments(`Paint "${label}" segment`, (prev) => insertSegment(prev, { start, end, label }))
+  }
+
+  const {
+    labelingActive,
+    playhead,
+    paintRange,
+    stepSeconds,
+    setStepSeconds,
+    playing,
+    setPlaying,
+    playbackRate,
+    setPlaybackRate,
+    movePlayhead,
+    startLabeling,
+    stopLabeling,
+  } = useLabelingMode(
+    labelSchema,
+    signalSamplingRate,
+    data.length > 0 ? [data[0].timestamp, data[data.length - 1].timestamp] : [0, 0],
+    handlePaintSegment,
+    revealTime
+  )
+
   const {
     draggingEdge,
     setDraggingEdge,
     hoveredEdge,
     setHoveredEdge,
-    selectedSegmentIndex,
-    setSelectedSegmentIndex,
+    getTimeFromMouseX,
     findEdgeNearMouse,
     findSegmentAtMouse,
-  } = useSegmentManagement(labelSegments, setLabelSegments, data, xDomain, chartRef)
+    trackPointer,
+    splitSegmentAt,
+    mergeSegmentRun,
+    relabelSegments,
+    deleteSegments,
+    moveSelectedSegments,
+    setSegmentBounds,
+  } = useSegmentManagement(
+    labelSegments,
+    editSegments,
+    data,
+    xDomain,
+    chartRef,
+    selectedSegmentIndices,
+    setSelectedSegmentIndices,
+    labelSchema,
+    playhead
+  )
 
   const [showTooltips, setShowTooltips] = useState(true)
+  const [visibleChannels, setVisibleChannels] = useState<ChannelKey[]>([])
+  const [channelLayout, setChannelLayout] = useState<ChannelLayout>("stacked")
+  const [chartRenderer, setChartRenderer] = useState<ChartRenderer>("svg")
+  const [labelExportFormat, setLabelExportFormat] = useState<LabelExportFormat>("events-csv")
+  const [signalExportFormat, setSignalExportFormat] = useState<SignalExportFormat>("opensignals")
   const [hoveredQuickAdd, setHoveredQuickAdd] = useState<number | null>(null)
   const [cropStart, setCropStart] = useState<string>("")
   const [cropEnd, setCropEnd] = useState<string>("")
@@ -82,163 +332,305 @@ export function OpenSignalsChart() {
   const [newSegmentEnd, setNewSegmentEnd] = useState<string>("")
   const [newSegmentLabel, setNewSegmentLabel] = useState<string>("")
   const [isCustomLabel, setIsCustomLabel] = useState(false)
+  const [segmentMenu, setSegmentMenu] = useState<SegmentContextMenuState | null>(null)
+  // Null until the user picks, so the pulsing input shows by default
+  const [shownSyncTrackKeys, setShownSyncTrackKeys] = useState<string[] | null>(null)
+
+  // Level of detail follows the zoom: full resolution when zoomed in, min/max buckets when zoomed out
+  const viewportData = useMemo(
+    () => getViewportPoints(signalStore, visibleChannels, xDomain),
+    [signalStore, visibleChannels, xDomain]
+  )
+  const displayData = useMemo(() => convertPoints(viewportData, channels), [viewportData, channels])
+
+  const sessionDraft = useMemo<SessionDraft | null>(() => {
+    if (signalStore.length === 0 || !sourceFiles) return null
+    return {
+      name: sourceFiles.signal,
+      sourceFiles,
+      channels,
+      visibleChannels,
+      labelSegments,
+      signalGaps,
+      fillGaps,
+      samplingRate: signalSamplingRate,
+      deviceId: signalDeviceId,
+      devices: signalDevices,
+      labelSchema,
+      signalStartTimestampMs,
+      keypressStartTimestampMs,
+      keypressSamplingRate,
+      ...clockCorrection,
+      cropOffsetSamples: signalStore.sourceOffset,
+      viewDomain: xDomain ?? null,
+      editLog: [...priorEditLog, ...getEditLog(historyEntries, historyCursor)],
+    }
+  }, [
+    priorEditLog,
+    historyEntries,
+    historyCursor,
+    signalStore,
+    sourceFiles,
+    channels,
+    visibleChannels,
+    labelSegments,
+    signalGaps,
+    fillGaps,
+    signalSamplingRate,
+    signalDeviceId,
+    signalDevices,
+    labelSchema,
+    signalStartTimestampMs,
+    keypressStartTimestampMs,
+    keypressSamplingRate,
+    clockCorrection,
+    xDomain,
+  ])
+
+  const {
+    recentSessions,
+    startSession,
+    resumeSession,
+    endSession,
+    discardSession,
+  } = useSessionAutosave(sessionDraft, signalStore, setError)
+  const displayRanges = useMemo(() => convertRanges(yRanges, channels), [yRanges, channels])
+  const syncTracks = useMemo(() => getSyncTracks(signalStore, signalDevices), [signalStore, signalDevices])
+  const defaultSyncTrack = getDefaultSyncTrack(syncTracks)
+  const shownSyncKeys = shownSyncTrackKeys ?? (defaultSyncTrack ? [defaultSyncTrack.key] : [])
 
   const handleLoadFiles = async () => {
-    if (signalFile && keypressFile) {
+    if (signalFile && (keypressFile || isEdfFile(signalFile))) {
       const result = await processFiles(signalFile, keypressFile)
       if (result) {
         const { timeMin, timeMax } = result
+        startSession()
+        clearHistory()
+        setPriorEditLog([])
+        setSelectedSegmentIndices([])
+        setVisibleChannels(getDefaultVisibleChannels(result.channels))
         const totalDuration = Math.max(timeMax - timeMin, 0)
         const windowSize = Math.min(totalDuration, 10)
         setXDomain([timeMin, timeMin + windowSize])
       }
     } else {
-      setError("Please select both files")
+      setError("Please select both files (the labels file is optional for EDF+/BDF+ recordings)")
     }
   }
 
-  const handleExportSignals = () => {
-    if (rawData.length === 0) {
-      setError("No signal data to export")
-      return
-    }
-    
-    if (signalStartTimestampMs === null) {
-      setError("Missing timestamp metadata for export")
-      return
+  const showRestoredSession = (session: SessionDraft, signal: Omit<SavedSignal, "id">) => {
+    clearHistory()
+    setPriorEditLog(session.editLog ?? [])
+    setSelectedSegmentIndices([])
+    setVisibleChannels(
+      session.visibleChannels.length > 0 ? session.visibleChannels : getDefaultVisibleChannels(session.channels)
+    )
+    const duration = Math.max(signal.columns.length - 1, 0) / session.samplingRate
+    setXDomain(session.viewDomain ?? [signal.startTime, signal.startTime + Math.min(duration, 10)])
+  }
+
+  const handleOpenProject = async (projectFile: File) => {
+    const project = await loadProject(projectFile)
+    if (project) {
+      startSession()
+      showRestoredSession(project.session, project.signal)
     }
-    
-    const lines: string[] = []
-    const exportDate = new Date(signalStartTimestampMs)
-    const dateOnly = formatLocalDate(exportDate)
-    const timeOnly = formatLocalTimeWithMs(exportDate)
-    
-    const deviceIdStr = signalDeviceId || "DEVICE_UNKNOWN"
-    const headerObj = {
-      [deviceIdStr]: {
-        "sampling rate": signalSamplingRate,
-        "date": dateOnly,
-        "time": timeOnly,
-        "resolution": [16, 16, 16, 16, 16, 16],
-        "channels": 6,
-        "column": "A1-A6"
+  }
+
+  const handleResumeSession = async (id: string) => {
+    try {
+      const saved = await resumeSession(id)
+      if (!saved) {
+        setError("Saved session could not be found")
+        return
       }
+
+      restoreSession(saved.session, saved.signal)
+      showRestoredSession(saved.session, saved.signal)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resume session")
     }
-    
-    lines.push(`# ${JSON.stringify(headerObj)}`)
-    lines.push("# EndOfHeader")
-    
-    for (let i = 0; i < rawData.length; i++) {
-      const point = rawData[i]
-      const row = `${i}\t0\t0\t0\t0\t${point.A1.toFixed(6)}\t${point.A2.toFixed(6)}\t${point.A3.toFixed(6)}\t${point.A4.toFixed(6)}\t${point.A5.toFixed(6)}\t${point.A6.toFixed(6)}`
-      lines.push(row)
-    }
-    
-    const content = lines.join('\n')
-    const blob = new Blob([content], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    
-    const now = new Date()
-    const timestamp = now.toISOString().replace(/[:.]/g, '-').substring(0, 19)
-    a.download = `opensignals_${deviceIdStr}_${timestamp}.txt`
-    
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
   }
 
-  const handleExportLabels = () => {
-    if (rawData.length === 0) {
-      setError("No signal data loaded for export")
+  const handleDiscardSession = (id: string) => {
+    discardSession(id).catch((err) => {
+      setError(err instanceof Error ? err.message : "Failed to discard session")
+    })
+  }
+
+  const handleReset = () => {
+    resetAll()
+    endSession()
+    clearHistory()
+    setPriorEditLog([])
+    setSelectedSegmentIndices([])
+    setShownSyncTrackKeys(null)
+    setSegmentMenu(null)
+    stopLabeling()
+  }
+
+  const handleExportSignal = () => {
+    if (signalStore.length === 0) {
+      setError("No signal data to export")
       return
     }
-    
-    if (labelSegments.length === 0) {
-      setError("No label segments to export")
+
+    const deviceIdStr = signalDeviceId || "DEVICE_UNKNOWN"
+    const exportTimestamp = getExportTimestamp()
+
+    if (signalExportFormat === "converted-csv") {
+      const content = serializeConvertedCsv(signalStore, channels)
+      downloadTextFile(content, `opensignals_${deviceIdStr}_converted_${exportTimestamp}.csv`, "text/csv")
       return
     }
-    
-    if (signalStartTimestampMs === null || keypressStartTimestampMs === null) {
+
+    if (signalStartTimestampMs === null) {
       setError("Missing timestamp metadata for export")
       return
     }
-    
-    const dataStart = rawData[0]?.timestamp ?? 0
-    const dataEnd = rawData[rawData.length - 1]?.timestamp ?? dataStart
-    
-    const segmentsForExport = labelSegments
+
+    if (signalExportFormat === "opensignals") {
+      const content = serializeOpenSignalsText({
+        startTimestampMs: signalStartTimestampMs,
+        channels,
+        devices: signalDevices,
+        store: signalStore,
+      })
+      downloadTextFile(content, `opensignals_${deviceIdStr}_${exportTimestamp}.txt`)
+      return
+    }
+
+    try {
+      const content = serializeEdf({
+        format: signalExportFormat,
+        store: signalStore,
+        channels,
+        segments: getSegmentsForExport(),
+        startTimestampMs: signalStartTimestampMs,
+        deviceId: signalDeviceId,
+      })
+      const filename = `opensignals_${deviceIdStr}_${exportTimestamp}.${signalExportFormat}`
+      downloadBlob(new Blob([content], { type: "application/octet-stream" }), filename)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export signal")
+    }
+  }
+
+  // Segments clipped to the loaded (possibly cropped) recording
+  const getSegmentsForExport = (): LabelSegment[] => {
+    const [dataStart, dataEnd] = getTimeRange(signalStore)
+    return labelSegments
       .map((segment) => ({
         label: segment.label,
         start: Math.max(segment.start, dataStart),
         end: Math.min(segment.end, dataEnd),
       }))
       .filter((segment) => segment.end > segment.start)
-    
+  }
+
+  const handleExportLabels = () => {
+    if (signalStore.length === 0) {
+      setError("No signal data loaded for export")
+      return
+    }
+
+    const segmentsForExport = getSegmentsForExport()
     if (segmentsForExport.length === 0) {
       setError("No label segments within the cropped range to export")
       return
     }
-    
-    const lines: string[] = []
-    const recordingDate = new Date(keypressStartTimestampMs)
-    const dateStr = `${formatLocalDate(recordingDate)} ${formatLocalTimeWithMs(recordingDate)}`
-    
-    lines.push("# Eye Tracking Keypress Labels")
-    lines.push(`# Recording started: ${dateStr}`)
-    lines.push(`# Sampling rate: ${keypressSamplingRate} Hz (${1000/keypressSamplingRate} ms per sample)`)
-    lines.push("# Columns: sample_number, timestamp_ms, elapsed_ms, label")
-    lines.push("# Labels: " + Array.from(new Set(segmentsForExport.map(s => s.label))).join(", "))
-    lines.push("# Exported with modifications")
-    lines.push("# EndOfHeader")
-    
-    let sampleNumber = 0
-    const sampleIntervalMs = 1000 / keypressSamplingRate
-    
-    for (const segment of segmentsForExport) {
-      const segmentStartMs = signalStartTimestampMs + (segment.start * 1000)
-      const segmentEndMs = signalStartTimestampMs + (segment.end * 1000)
-      const segmentDurationMs = segmentEndMs - segmentStartMs
-      
-      const numSamples = Math.max(1, Math.ceil(segmentDurationMs / sampleIntervalMs))
-      
-      for (let i = 0; i < numSamples; i++) {
-        const timestampMs = segmentStartMs + (i * sampleIntervalMs)
-        const elapsedMs = timestampMs - keypressStartTimestampMs
-        
-        lines.push(`${sampleNumber}\t${timestampMs.toFixed(3)}\t${elapsedMs.toFixed(3)}\t${segment.label}`)
-        sampleNumber++
+
+    const exportTimestamp = getExportTimestamp()
+
+    if (labelExportFormat === "keypress") {
+      if (signalStartTimestampMs === null || keypressStartTimestampMs === null) {
+        setError("Missing timestamp metadata for export")
+        return
       }
+      const content = serializeKeypressLabels({
+        segments: segmentsForExport,
+        signalStartTimestampMs,
+        keypressStartTimestampMs,
+        keypressSamplingRate,
+        ...clockCorrection,
+      })
+      downloadTextFile(content, `keypress_labels_edited_${exportTimestamp}.txt`)
+      return
+    }
+
+    const content = serializeLabelEvents(
+      buildLabelEvents(segmentsForExport, signalStartTimestampMs),
+      labelExportFormat,
+      { signalStartTimestampMs, keypressStartTimestampMs, keypressSamplingRate, ...clockCorrection }
+    )
+    if (labelExportFormat === "events-json") {
+      downloadTextFile(content, `label_events_${exportTimestamp}.json`, "application/json")
+    } else if (labelExportFormat === "bids-tsv") {
+      downloadTextFile(content, `label_events_${exportTimestamp}_events.tsv`, "text/tab-separated-values")
+    } else {
+      downloadTextFile(content, `label_events_${exportTimestamp}.csv`, "text/csv")
     }
-    
-    const content = lines.join('\n')
-    const blob = new Blob([content], { type: 'text/plain' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    
-    const now = new Date()
-    const timestamp = now.toISOString().replace(/[:.]/g, '-').substring(0, 19)
-    a.download = `keypress_labels_edited_${timestamp}.txt`
-    
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
   }
-  
-  const handleExportBoth = () => {
-    handleExportSignals()
-    setTimeout(() => handleExportLabels(), 100)
+
+  const handleExportProject = async () => {
+    if (!sessionDraft) {
+      setError("No signal data to export")
+      return
+    }
+
+    const deviceIdStr = signalDeviceId || "DEVICE_UNKNOWN"
+    const interchangeFiles: { path: string; content: string }[] = []
+
+    if (signalStartTimestampMs !== null) {
+      interchangeFiles.push({
+        path: `opensignals_${deviceIdStr}.txt`,
+        content: serializeOpenSignalsText({
+          startTimestampMs: signalStartTimestampMs,
+          channels,
+          devices: signalDevices,
+          store: signalStore,
+        }),
+      })
+    }
+
+    const segmentsForExport = getSegmentsForExport()
+    if (segmentsForExport.length > 0) {
+      interchangeFiles.push({
+        path: "events.tsv",
+        content: serializeLabelEvents(buildLabelEvents(segmentsForExport, signalStartTimestampMs), "bids-tsv", {
+          signalStartTimestampMs,
+          keypressStartTimestampMs,
+          keypressSamplingRate,
+          ...clockCorrection,
+        }),
+      })
+    }
+
+    if (segmentsForExport.length > 0 && signalStartTimestampMs !== null && keypressStartTimestampMs !== null) {
+      interchangeFiles.push({
+        path: "keypress_labels.txt",
+        content: serializeKeypressLabels({
+          segments: segmentsForExport,
+          signalStartTimestampMs,
+          keypressStartTimestampMs,
+          keypressSamplingRate,
+          ...clockCorrection,
+        }),
+      })
+    }
+
+    try {
+      const archive = await buildProjectArchive({ session: sessionDraft, store: signalStore, interchangeFiles })
+      downloadBlob(archive, `oculy_project_${deviceIdStr}_${getExportTimestamp()}.zip`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export project")
+    }
   }
 
   const handleApplyCrop = (cropStartStr: string, cropEndStr: string) => {
-    if (rawData.length === 0) return
+    if (signalStore.length === 0) return
     
-    const timeMin = rawData[0].timestamp
-    const timeMax = rawData[rawData.length - 1].timestamp
+    const [timeMin, timeMax] = getTimeRange(signalStore)
     
     const startTime = cropStartStr ? parseFloat(cropStartStr) : timeMin
     const endTime = cropEndStr ? parseFloat(cropEndStr) : timeMax
@@ -258,28 +650,23 @@ export function OpenSignalsChart() {
       return
     }
     
-    const trimmedRawData = rawData.filter(
-      (point) => point.timestamp >= startTime && point.timestamp <= endTime
-    )
+    const [firstKeptIndex, endIndex] = getSampleRangeForTimes(signalStore, startTime, endTime)
     
-    if (trimmedRawData.length === 0) {
+    if (endIndex <= firstKeptIndex) {
       setError("Crop range contains no data points.")
       return
     }
     
-    const offset = startTime
+    // The cropped time base starts at the first kept sample, which can fall after `startTime`
+    const offset = getSampleTime(signalStore, firstKeptIndex)
+    const channelKeys = channels.map((channel) => channel.key)
     
-    const normalizedRawData = trimmedRawData.map((point) => ({
-      ...point,
-      timestamp: point.timestamp - offset,
-    }))
-    
-    const sampleStep = Math.max(1, Math.floor(normalizedRawData.length / 10000))
-    const normalizedSampledData = normalizedRawData.filter((_, idx) => idx % sampleStep === 0)
+    // Slices share the loaded buffers, so cropping copies no samples
+    const croppedStore = sliceSignalStore(signalStore, firstKeptIndex, endIndex, offset)
     
     const croppedSegments = labelSegments
       .map((segment) => {
-        const clampedStart = Math.max(segment.start, startTime)
+        const clampedStart = Math.max(segment.start, offset)
         const clampedEnd = Math.min(segment.end, endTime)
         return {
           ...segment,
@@ -289,29 +676,36 @@ export function OpenSignalsChart() {
       })
       .filter((segment) => segment.end > segment.start)
     
-    setRawData(normalizedRawData)
-    setData(normalizedSampledData)
-    setLabelSegments(croppedSegments)
-    
-    let minA4 = Number.POSITIVE_INFINITY
-    let maxA4 = Number.NEGATIVE_INFINITY
-    normalizedRawData.forEach((point) => {
-      minA4 = Math.min(minA4, point.A4)
-      maxA4 = Math.max(maxA4, point.A4)
-    })
-    setYRange([minA4, maxA4])
-    
-    const newTimeMin = normalizedRawData[0].timestamp
-    const newTimeMax = normalizedRawData[normalizedRawData.length - 1].timestamp
-    const totalDuration = newTimeMax - newTimeMin
-    const windowSize = Math.min(totalDuration, 10)
-    setXDomain([newTimeMin, newTimeMin + windowSize])
+    const croppedGaps = signalGaps
+      .filter((gap) => gap.end > offset && gap.start < endTime)
+      .map((gap) => ({
+        ...gap,
+        sampleIndex: Math.max(0, gap.sampleIndex - firstKeptIndex),
+        start: Math.max(gap.start, offset) - offset,
+        end: Math.min(gap.end, endTime) - offset,
+      }))
     
     const offsetMs = offset * 1000
-    setSignalStartTimestampMs((prev) => (prev !== null ? prev + offsetMs : prev))
-    setKeypressStartTimestampMs((prev) => (prev !== null ? prev + offsetMs : prev))
+    const before: EditSnapshot = {
+      labelSegments,
+      ...clockCorrection,
+      signal: captureSignal(),
+    }
+    const after: EditSnapshot = {
+      labelSegments: croppedSegments,
+      ...clockCorrection,
+      signal: {
+        store: croppedStore,
+        gaps: croppedGaps,
+        ranges: computeStoreRanges(croppedStore, channelKeys),
+        signalStartTimestampMs: signalStartTimestampMs !== null ? signalStartTimestampMs + offsetMs : null,
+        keypressStartTimestampMs: keypressStartTimestampMs !== null ? keypressStartTimestampMs + offsetMs : null,
+      },
+    }
     
-    setSelectedSegmentIndex(null)
+    // The cropped state is applied the same way undo/redo restore it
+    applyEditSnapshot(after)
+    recordEdit(`Crop to ${startTime.toFixed(2)}s - ${endTime.toFixed(2)}s`, before, after)
     setError(null)
   }
 
@@ -333,34 +727,32 @@ export function OpenSignalsChart() {
     }
   }
 
-  const handleAddNewSegment = (startStr: string, endStr: string, label: string) => {
-    if (data.length === 0) return
+  // Shared by the form and the chart: validates the range, then lays the segment over existing ones
+  const addSegment = (startTime: number, endTime: number, label: string): boolean => {
+    if (data.length === 0) return false
     
     const timeMin = data[0].timestamp
     const timeMax = data[data.length - 1].timestamp
-    
-    const startTime = parseFloat(startStr)
-    const endTime = parseFloat(endStr)
     const trimmedLabel = label.trim()
     
     if (!trimmedLabel) {
       setError("Please enter a label for the new segment.")
-      return
+      return false
     }
     
     if (isNaN(startTime) || isNaN(endTime)) {
       setError("Invalid segment times. Please enter valid numbers.")
-      return
+      return false
     }
     
     if (startTime >= endTime) {
       setError("Segment start time must be less than end time.")
-      return
+      return false
     }
     
     if (startTime < timeMin || endTime > timeMax) {
       setError(`Segment times must be within data range (${timeMin.toFixed(2)}s - ${timeMax.toFixed(2)}s).`)
-      return
+      return false
     }
     
     const newSegment: LabelSegment = {
@@ -369,57 +761,142 @@ export function OpenSignalsChart() {
       label: trimmedLabel
     }
     
-    const processedSegments: LabelSegment[] = []
-    
-    for (const segment of labelSegments) {
-      const overlaps = !(segment.end <= startTime || segment.start >= endTime)
-      
-      if (!overlaps) {
-        processedSegments.push(segment)
-      } else {
-        if (startTime <= segment.start && endTime >= segment.end) {
-          continue
-        }
-        
-        if (segment.start < startTime && segment.end > endTime) {
-          processedSegments.push({
-            ...segment,
-            end: startTime
-          })
-          processedSegments.push({
-            ...segment,
-            start: endTime
-          })
-          continue
-        }
-        
-        if (startTime <= segment.start && endTime < segment.end) {
-          processedSegments.push({
-            ...segment,
-            start: endTime
-          })
-          continue
-        }
-        
-        if (startTime > segment.start && endTime >= segment.end) {
-          processedSegments.push({
-            ...segment,
-            end: startTime
-          })
-          continue
-        }
-      }
-    }
-    
-    const newSegments = [...processedSegments, newSegment].sort((a, b) => a.start - b.start)
-    setLabelSegments(newSegments)
+    editSegments(`Add "${trimmedLabel}" segment`, (prev) => insertSegment(prev, newSegment))
+    setError(null)
+    return true
+  }
+
+  const handleAddNewSegment = (startStr: string, endStr: string, label: string) => {
+    if (!addSegment(parseFloat(startStr), parseFloat(endStr), label)) return
     
     // Clear the form
     setNewSegmentStart("")
     setNewSegmentEnd("")
     setNewSegmentLabel("")
     setIsCustomLabel(false)
-    setError(null)
+  }
+
+  const handleToggleChannel = (channel: ChannelKey) => {
+    setVisibleChannels((prev) => {
+      if (prev.includes(channel)) {
+        return prev.length > 1 ? prev.filter((c) => c !== channel) : prev
+      }
+      // Keep lanes in channel order regardless of toggle order
+      return channels
+        .map((c) => c.key)
+        .filter((key) => key === channel || prev.includes(key))
+    })
+  }
+
+  // Keeps the zoom level and moves the view so `center` is in the middle
+  const centerViewOn = (center: number) => {
+    if (data.length === 0) return
+
+    const timeMin = data[0].timestamp
+    const timeMax = data[data.length - 1].timestamp
+    const domain = xDomain || [timeMin, timeMax]
+    const windowSize = Math.min(domain[1] - domain[0], timeMax - timeMin)
+    const newStart = Math.min(Math.max(timeMin, center - windowSize / 2), timeMax - windowSize)
+    setXDomain([newStart, newStart + windowSize])
+  }
+
+  const handleSelectRange = (start: number, end: number) => {
+    setSelectedSegmentIndices(getSegmentIndicesInRange(labelSegments, start, end))
+  }
+
+  // Shift+click or Alt+click adds a segment to the selection or takes it out
+  const handleToggleSegmentAt = (clientX: number) => {
+    const currentDomain = xDomain || (data.length > 0 ? [data[0].timestamp, data[data.length - 1].timestamp] : [0, 0])
+    const segmentIndex = findSegmentAtMouse(clientX, currentDomain)
+    if (segmentIndex === null) return
+    setSelectedSegmentIndices(
+      selectedSegmentIndices.includes(segmentIndex)
+        ? selectedSegmentIndices.filter((idx) => idx !== segmentIndex)
+        : [...selectedSegmentIndices, segmentIndex].sort((a, b) => a - b)
+    )
+  }
+
+  const { rangeSelection, pendingRange, beginRangeSelection, cancelPendingRange } = useRangeSelection(
+    chartRef,
+    xDomain || (data.length > 0 ? [data[0].timestamp, data[data.length - 1].timestamp] : [0, 0]),
+    handleSelectRange,
+    handleToggleSegmentAt
+  )
+
+  const handlePickRangeLabel = (label: string) => {
+    if (!pendingRange) return
+    addSegment(pendingRange.start, pendingRange.end, label)
+    cancelPendingRange()
+  }
+
+  const selectionLabel = (count: number) => (count === 1 ? "segment" : `${count} segments`)
+
+  const handleKeepSelectedLabel = (label: string) => {
+    setSelectedSegmentIndices(selectedSegmentIndices.filter((idx) => labelSegments[idx]?.label === label))
+  }
+
+  const handleShiftSelection = (offsetMs: number) => {
+    const description = `Shift ${selectionLabel(selectedSegmentIndices.length)} by ${formatOffsetMs(offsetMs)}`
+    moveSelectedSegments(description, (time) => time + offsetMs / 1000)
+  }
+
+  // Boundaries land on the nearest sample, the same grid the labeling playhead steps on
+  const handleSnapSelection = () => {
+    const origin = data.length > 0 ? data[0].timestamp : 0
+    const description = `Snap ${selectionLabel(selectedSegmentIndices.length)} to samples`
+    moveSelectedSegments(
+      description,
+      (time) => origin + Math.round((time - origin) * signalSamplingRate) / signalSamplingRate
+    )
+  }
+
+  const handleSelectTableSegment = (index: number) => {
+    const segment = labelSegments[index]
+    if (!segment) return
+    setSelectedSegmentIndices([index])
+    centerViewOn((segment.start + segment.end) / 2)
+  }
+
+  const handleJumpToGap = (gap: SignalGap) => {
+    centerViewOn((gap.start + gap.end) / 2)
+  }
+
+  const handleJumpToMarker = (marker: SyncMarker) => {
+    centerViewOn(marker.time)
+  }
+
+  // Renames happen together, so swapping two names doesn't collapse them into one
+  const renameLabels = (description: string, renames: LabelRename[]) => {
+    const renamed = new Map(renames.map(({ from, to }) => [from, to]))
+    if (!latestSegmentsRef.current.some((segment) => renamed.has(segment.label))) return
+    editSegments(description, (prev) =>
+      prev.map((segment) => {
+        const label = renamed.get(segment.label)
+        return label === undefined ? segment : { ...segment, label }
+      })
+    )
+  }
+
+  const handleSaveLabelSchema = (schema: LabelDefinition[], renames: LabelRename[]) => {
+    setLabelSchema(schema)
+    renameLabels(
+      renames.length === 1 ? `Rename label "${renames[0].from}" to "${renames[0].to}"` : `Rename ${renames.length} labels`,
+      renames
+    )
+  }
+
+  const handleMapLabel = (from: string, to: string) => {
+    renameLabels(`Map label "${from}" to "${to}"`, [{ from, to }])
+  }
+
+  const handleAddLabelToSchema = (name: string) => {
+    setLabelSchema([...labelSchema, { name, color: getNextLabelColor(labelSchema), hotkey: null, description: "" }])
+  }
+
+  const handleToggleSyncTrack = (key: string) => {
+    setShownSyncTrackKeys(
+      shownSyncKeys.includes(key) ? shownSyncKeys.filter((k) => k !== key) : [...shownSyncKeys, key]
+    )
   }
 
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -428,6 +905,19 @@ export function OpenSignalsChart() {
     const timeMin = data.length > 0 ? data[0].timestamp : 0
     const timeMax = data.length > 0 ? data[data.length - 1].timestamp : 0
     const currentDomain = xDomain || [timeMin, timeMax]
+
+    // In labeling mode a click also places the playhead
+    if (labelingActive) {
+      const time = getTimeFromMouseX(e.clientX, currentDomain)
+      if (time !== null) movePlayhead(time)
+    }
+
+    // Shift+drag lays out a new segment and Alt+drag selects the segments under it, instead of panning
+    const rangeMode = e.altKey ? "select" : e.shiftKey ? "create" : null
+    if (rangeMode && !isEventFromBrush(e.target) && beginRangeSelection(e.clientX, rangeMode)) {
+      e.preventDefault()
+      return
+    }
     
     const edge = findEdgeNearMouse(e.clientX, currentDomain)
     
@@ -448,20 +938,21 @@ export function OpenSignalsChart() {
     if (segmentIndex !== null) {
       e.preventDefault()
       e.stopPropagation()
-      setSelectedSegmentIndex(segmentIndex)
+      setSelectedSegmentIndices([segmentIndex])
       return
     }
     
-    setSelectedSegmentIndex(null)
+    setSelectedSegmentIndices([])
     navHandleMouseDown(e, currentDomain)
   }
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (draggingEdge || isDragging.current) return
-    
     const timeMin = data.length > 0 ? data[0].timestamp : 0
     const timeMax = data.length > 0 ? data[data.length - 1].timestamp : 0
     const currentDomain = xDomain || [timeMin, timeMax]
+    trackPointer(e.clientX)
+
+    if (draggingEdge || isDragging.current) return
     
     const edge = findEdgeNearMouse(e.clientX, currentDomain)
     
@@ -475,11 +966,28 @@ export function OpenSignalsChart() {
     }
   }
 
-  if (rawData.length === 0 && !loading) {
+  // Right-clicking a segment selects it and opens its actions; elsewhere the browser menu stays
+  const handleContextMenu = (e: React.MouseEvent) => {
+    const timeMin = data.length > 0 ? data[0].timestamp : 0
+    const timeMax = data.length > 0 ? data[data.length - 1].timestamp : 0
+    const currentDomain = xDomain || [timeMin, timeMax]
+    const time = getTimeFromMouseX(e.clientX, currentDomain)
+    const segmentIndex = findSegmentAtMouse(e.clientX, currentDomain)
+    const rect = chartRef.current?.getBoundingClientRect()
+    if (time === null || segmentIndex === null || !rect) return
+
+    e.preventDefault()
+    setSelectedSegmentIndices([segmentIndex])
+    setSegmentMenu({ segmentIndex, time, x: e.clientX - rect.left, y: e.clientY - rect.top })
+  }
+
+  if (signalStore.length === 0 && !loading) {
     return (
       <FileUpload
         signalFile={signalFile}
         keypressFile={keypressFile}
+        fillGaps={fillGaps}
+        onFillGapsChange={setFillGaps}
         loading={loading}
         error={error}
         signalInputRef={signalInputRef}
@@ -487,19 +995,21 @@ export function OpenSignalsChart() {
         onSignalFileChange={handleSignalFileChange}
         onKeypressFileChange={handleKeypressFileChange}
         onLoadFiles={handleLoadFiles}
+        onOpenProject={handleOpenProject}
+        recentSessions={recentSessions}
+        onResumeSession={handleResumeSession}
+        onDiscardSession={handleDiscardSession}
       />
     )
   }
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center p-8">
-        <p className="text-muted-foreground">Loading data...</p>
-      </div>
+      <LoadingProgress progress={loadProgress} onCancel={cancelLoading} />
     )
   }
 
-  if (error && rawData.length === 0) {
+  if (error && signalStore.length === 0) {
     return (
       <div className="flex items-center justify-center p-8">
         <p className="text-destructive">Error: {error}</p>
@@ -507,19 +1017,56 @@ export function OpenSignalsChart() {
     )
   }
 
+  const channelConfig = buildChannelChartConfig(channels)
   const uniqueLabelNames = Array.from(new Set(labelSegments.map((segment) => segment.label)))
+  const unknownLabels = getUnknownLabels(labelSegments, labelSchema)
+  const segmentMergeRange = segmentMenu && getMergeRange(labelSegments, segmentMenu.segmentIndex)
+  const segmentMergeCount = segmentMergeRange ? segmentMergeRange[1] - segmentMergeRange[0] + 1 : 1
   const timeMin = data.length > 0 ? data[0].timestamp : 0
   const timeMax = data.length > 0 ? data[data.length - 1].timestamp : 0
   const currentDomain = xDomain || [timeMin, timeMax]
 
+  const chartViewProps: ChartViewProps = {
+    data: displayData,
+    overviewData: data,
+    labelSegments,
+    labelSchema,
+    signalGaps,
+    syncTracks: syncTracks.filter((track) => shownSyncKeys.includes(track.key)),
+    playhead,
+    paintRange,
+    rangeSelection,
+    xDomain,
+    yRanges: displayRanges,
+    visibleChannels,
+    channelConfig,
+    channelLayout,
+    chartRef,
+    showTooltips,
+    selectedSegmentIndices,
+    draggingEdge,
+    hoveredEdge,
+    hoveredQuickAdd,
+    cropStart,
+    cropEnd,
+    showCropPreview,
+    onMouseDown: handleMouseDown,
+    onMouseMove: handleMouseMove,
+    onContextMenu: handleContextMenu,
+    onWheel: (e) => handleWheel(e, currentDomain),
+    onBrushChange: handleBrushChange,
+    onQuickAddSegment: handleQuickAddSegment,
+    setHoveredQuickAdd,
+  }
+
   return (
     <div className="w-full space-y-4">
       <div className="space-y-2">
         <div className="flex items-center justify-between">
           <div>
-            <h2 className="text-2xl font-semibold">OpenSignals Data Visualization - A4</h2>
+            <h2 className="text-2xl font-semibold">OpenSignals Data Visualization - {visibleChannels.map((key) => channelConfig[key]?.label ?? key).join(", ")}</h2>
             <p className="text-sm text-muted-foreground">
-              {rawData.length.toLocaleString()} data points ({data.length.toLocaleString()} displayed)
+              {signalStore.length.toLocaleString()} data points ({displayData.length.toLocaleString()} displayed)
               {xDomain && (
                 <span className="ml-2">
                   | Showing {currentDomain[0].toFixed(2)}s - {currentDomain[1].toFixed(2)}s
@@ -532,7 +1079,7 @@ export function OpenSignalsChart() {
                 <div className="flex items-center gap-1.5 rounded-md border px-2 py-0.5">
                   <span
                     className="h-2.5 w-2.5 rounded-sm"
-                    style={{ backgroundColor: getLabelColor(labelSegments[selectedSegmentIndex].label) }}
+                    style={{ backgroundColor: getLabelColor(labelSegments[selectedSegmentIndex].label, labelSchema) }}
                   />
                   <span className="font-medium">{labelSegments[selectedSegmentIndex].label}</span>
                   <span className="text-muted-foreground">
@@ -553,15 +1100,27 @@ export function OpenSignalsChart() {
             <Button
               variant="default"
               size="sm"
-              onClick={handleExportBoth}
-              disabled={labelSegments.length === 0 || rawData.length === 0}
+              onClick={handleExportProject}
+              disabled={labelSegments.length === 0 || signalStore.length === 0}
             >
-              Export Data
+              Export Project
             </Button>
+            <LabelExport
+              format={labelExportFormat}
+              disabled={labelSegments.length === 0 || signalStore.length === 0}
+              onFormatChange={setLabelExportFormat}
+              onExport={handleExportLabels}
+            />
+            <SignalExport
+              format={signalExportFormat}
+              disabled={signalStore.length === 0}
+              onFormatChange={setSignalExportFormat}
+              onExport={handleExportSignal}
+            />
             <Button
               variant="outline"
               size="sm"
-              onClick={resetAll}
+              onClick={handleReset}
             >
               Reset
             </Button>
@@ -573,6 +1132,24 @@ export function OpenSignalsChart() {
           <p className="text-sm text-destructive">{error}</p>
         </div>
       )}
+      <GapReport
+        gaps={signalGaps}
+        samplingRate={signalSamplingRate}
+        filled={fillGaps}
+        onJumpToGap={handleJumpToGap}
+      />
+      <UnknownLabels
+        unknownLabels={unknownLabels}
+        schema={labelSchema}
+        onMapLabel={handleMapLabel}
+        onAddToSchema={handleAddLabelToSchema}
+      />
+      <SyncMarkers
+        tracks={syncTracks}
+        shownTrackKeys={shownSyncKeys}
+        onToggleTrack={handleToggleSyncTrack}
+        onJumpToMarker={handleJumpToMarker}
+      />
       <ChartControls
         timeMin={timeMin}
         timeMax={timeMax}
@@ -583,10 +1160,16 @@ export function OpenSignalsChart() {
         setShowCropPreview={setShowCropPreview}
         onApplyCrop={handleApplyCrop}
       />
+      <LabelSchemaEditor
+        schema={labelSchema}
+        usedLabels={uniqueLabelNames}
+        onSave={handleSaveLabelSchema}
+        onResetToDefault={() => setLabelSchema(DEFAULT_LABEL_SCHEMA)}
+      />
       <SegmentForm
         timeMin={timeMin}
         timeMax={timeMax}
-        uniqueLabelNames={uniqueLabelNames}
+        labelSchema={labelSchema}
         newSegmentStart={newSegmentStart}
         newSegmentEnd={newSegmentEnd}
         newSegmentLabel={newSegmentLabel}
@@ -597,36 +1180,141 @@ export function OpenSignalsChart() {
         setIsCustomLabel={setIsCustomLabel}
         onAddSegment={handleAddNewSegment}
       />
-      <ChartView
-        data={data}
+      <ClockAlignment
+        channels={channels}
+        labels={uniqueLabelNames}
+        clockCorrection={clockCorrection}
+        selectedSegment={selectedSegmentIndex !== null ? labelSegments[selectedSegmentIndex] ?? null : null}
+        duration={timeMax - timeMin}
+        syncTracks={syncTracks}
+        onEstimate={(channel, label) =>
+          estimateClockOffset({ store: signalStore, channel, segments: labelSegments, label })
+        }
+        onApplyOffset={applyClockOffset}
+        onMatchEvents={(channel, label) =>
+          matchLabelEvents({ store: signalStore, channel, segments: labelSegments, label })
+        }
+        onMatchMarkers={(track, label, maxLagMs) =>
+          matchLabelsToMarkers({ segments: labelSegments, label, markers: track.markers, maxLagMs })
+        }
+        onApplyDrift={applyClockDrift}
+      />
+      <HistoryPanel
+        entries={historyEntries}
+        cursor={historyCursor}
+        canUndo={canUndo}
+        canRedo={canRedo}
+        onUndo={undo}
+        onRedo={redo}
+        onJumpTo={jumpTo}
+      />
+      <ChannelSelector
+        channels={channels}
+        channelConfig={channelConfig}
+        visibleChannels={visibleChannels}
+        channelLayout={channelLayout}
+        onToggleChannel={handleToggleChannel}
+        renderer={chartRenderer}
+        onLayoutChange={setChannelLayout}
+        onRendererChange={setChartRenderer}
+        onSensorChange={setChannelSensor}
+      />
+      <LabelingToolbar
+        labelSchema={labelSchema}
+        active={labelingActive}
+        playhead={playhead}
+        paintRange={paintRange}
+        samplingRate={signalSamplingRate}
+        stepSeconds={stepSeconds}
+        playing={playing}
+        playbackRate={playbackRate}
+        onStart={() => startLabeling((currentDomain[0] + currentDomain[1]) / 2)}
+        onStop={stopLabeling}
+        onStepChange={setStepSeconds}
+        onPlayingChange={setPlaying}
+        onPlaybackRateChange={setPlaybackRate}
+      />
+      <div className="relative">
+        {chartRenderer === "canvas" ? (
+          <CanvasChartView {...chartViewProps} />
+        ) : (
+          <ChartView {...chartViewProps} />
+        )}
+        {pendingRange && (
+          <SegmentLabelPicker
+            range={pendingRange}
+            labelSchema={labelSchema}
+            onPick={handlePickRangeLabel}
+            onCancel={cancelPendingRange}
+          />
+        )}
+        {segmentMenu && labelSegments[segmentMenu.segmentIndex] && (
+          <SegmentContextMenu
+            menu={segmentMenu}
+            segment={labelSegments[segmentMenu.segmentIndex]}
+            labelSchema={labelSchema}
+            canSplit={splitSegment(labelSegments, segmentMenu.segmentIndex, segmentMenu.time) !== null}
+            mergeCount={segmentMergeCount}
+            onSplit={() => {
+              splitSegmentAt(segmentMenu.segmentIndex, segmentMenu.time)
+              setSegmentMenu(null)
+            }}
+            onMerge={() => {
+              mergeSegmentRun(segmentMenu.segmentIndex)
+              setSegmentMenu(null)
+            }}
+            onRelabel={(label) => {
+              relabelSegments([segmentMenu.segmentIndex], label)
+              setSegmentMenu(null)
+            }}
+            onDelete={() => {
+              deleteSegments([segmentMenu.segmentIndex])
+              setSegmentMenu(null)
+            }}
+            onClose={() => setSegmentMenu(null)}
+          />
+        )}
+      </div>
+      <SegmentSelectionPanel
+        selectedSegments={selectedSegmentIndices.flatMap((idx) => labelSegments[idx] ?? [])}
+        labelSchema={labelSchema}
+        onClear={() => setSelectedSegmentIndices([])}
+        onKeepLabel={handleKeepSelectedLabel}
+        onRelabel={(label) => relabelSegments(selectedSegmentIndices, label)}
+        onShift={handleShiftSelection}
+        onSnap={handleSnapSelection}
+        onDelete={() => deleteSegments(selectedSegmentIndices)}
+      />
+      <SegmentTable
         labelSegments={labelSegments}
-        xDomain={xDomain}
-        yRange={yRange}
-        chartRef={chartRef}
-        showTooltips={showTooltips}
-        selectedSegmentIndex={selectedSegmentIndex}
-        draggingEdge={draggingEdge}
-        hoveredEdge={hoveredEdge}
-        hoveredQuickAdd={hoveredQuickAdd}
-        cropStart={cropStart}
-        cropEnd={cropEnd}
-        showCropPreview={showCropPreview}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onWheel={(e) => handleWheel(e, currentDomain)}
-        onBrushChange={handleBrushChange}
-        onQuickAddSegment={handleQuickAddSegment}
-        setHoveredQuickAdd={setHoveredQuickAdd}
+        labelSchema={labelSchema}
+        signalStore={signalStore}
+        channels={channels}
+        activeChannel={visibleChannels[0]}
+        selectedSegmentIndices={selectedSegmentIndices}
+        onSelectSegment={handleSelectTableSegment}
+        onEditLabel={(index, label) => relabelSegments([index], label)}
+        onEditBounds={setSegmentBounds}
       />
       {labelSegments.length > 0 && (
         <div className="space-y-1">
           <p className="text-sm font-medium">Keypress labels</p>
           <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
-            {uniqueLabelNames.map((label) => (
-              <span key={label} className="flex items-center gap-1.5">
+            {labelSchema.map((definition) => (
+              <span key={definition.name} className="flex items-center gap-1.5" title={definition.description}>
+                <span
+                  className="h-3 w-3 rounded-sm"
+                  style={{ backgroundColor: definition.color }}
+                />
+                {definition.name}
+                {definition.hotkey && <kbd className="rounded border px-1 font-mono text-[10px]">{definition.hotkey}</kbd>}
+              </span>
+            ))}
+            {unknownLabels.map(({ label }) => (
+              <span key={label} className="flex items-center gap-1.5 italic" title="Not in the label schema">
                 <span
                   className="h-3 w-3 rounded-sm"
-                  style={{ backgroundColor: getLabelColor(label) }}
+                  style={{ backgroundColor: getLabelColor(label, labelSchema) }}
                 />
                 {label}
               </span>
@@ -635,7 +1323,7 @@ export function OpenSignalsChart() {
         </div>
       )}
       <p className="text-xs text-muted-foreground">
-        Scroll with mouse wheel or drag the brush below to navigate. Drag on the chart to pan. Click on a segment to select it, then press Delete or Backspace to remove it. Drag the colored circles at segment edges to adjust label boundaries (adjacent segments will move together to maintain continuity). Click the green "+" button at the end of any segment to quickly add a 0.2s segment starting at that point. Press Escape to deselect. Use the "Add New Segment" section to create new labeled segments, and the crop controls to permanently trim the data to a specific time range.
+        Scroll with mouse wheel or drag the brush below to navigate. Toggle channels above the chart and switch between stacked lanes and a single overlaid plot. Switch the renderer to Canvas for long recordings with many segments. Hatched red regions mark samples dropped in transmission. Drag on the chart to pan, or Shift+drag to mark a time range and pick its label right at the cursor. Click on a segment to select it, Shift+click to add segments to the selection, or Alt+drag to select every segment in a time range. Press Delete or Backspace to remove the selection, a label hotkey to relabel it, / to split a single selected segment at the mouse (or at the playhead in labeling mode), or M to merge it with touching segments of the same label; right-click a segment for the same actions. The selection panel relabels, shifts by a number of milliseconds, snaps to samples or deletes every selected segment at once. Open the segment table to sort and filter every segment by label or duration, compare their mean and peak-to-peak on a channel, click a row to center the chart on it, and edit its label or times in place. Drag the colored circles at segment edges to adjust label boundaries (adjacent segments will move together to maintain continuity). Click the green &quot;+&quot; button at the end of any segment to quickly add a 0.2s segment starting at that point. Press Escape to deselect. Start labeling mode to label from the keyboard: arrow keys step the playhead by one sample (Shift+arrow by the chosen step), Space plays it, and holding a label hotkey paints that label from press to release. Edit the label schema to set the color, hotkey and description of each label; labels outside it are flagged so they can be mapped onto a schema label or added. Use Clock Alignment to estimate how far the keypress clock is off from blinks on the EOG channel, then apply or fine-tune the offset; for long sessions, match blinks or add anchor points to fit and correct a linear clock drift. Pulses on the digital IO channels show as an event track under the chart with dashed markers at each rising edge; match labels to those markers to align them to the hardware trigger instead of the keypress clock. Undo and redo any label edit, alignment or crop with Ctrl+Z and Ctrl+Shift+Z, or jump to an earlier step in the edit history. Use the &quot;Add New Segment&quot; section to create new labeled segments, and the crop controls to permanently trim the data to a specific time range.
       </p>
     </div>
   )
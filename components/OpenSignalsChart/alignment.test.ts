@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest"
+import {
+  composeClockCorrection,
+  estimateClockOffset,
+  fitClockDrift,
+  matchLabelEvents,
+  shiftSegments,
+  type ClockAnchor,
+} from "./alignment"
+import { createSignalStore } from "./signalStore"
+import type { LabelSegment } from "./types"
+
+const RATE = 1000
+const BLINK_SECONDS = 0.3
+// Irregular spacing, so no lag other than the true one lines the blinks up
+const BLINK_TIMES = [3.1, 7.4, 12.9, 16.2, 22.7, 27.5, 33.3, 38.8, 41.6, 47.9, 53.2, 57]
+
+// A slowly wandering EOG trace with a raised-cosine deflection at each blink
+function buildBlinkStore(durationSeconds = 60) {
+  const values = new Float32Array(durationSeconds * RATE)
+  let seed = 1
+  for (let i = 0; i < values.length; i++) {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31
+    values[i] = 512 + 20 * Math.sin(i / RATE / 4) + ((seed / 2 ** 31) - 0.5) * 10
+  }
+  for (const time of BLINK_TIMES) {
+    const from = Math.round(time * RATE)
+    const width = BLINK_SECONDS * RATE
+    for (let i = 0; i < width; i++) {
+      values[from + i] += 150 * (1 - Math.cos((2 * Math.PI * i) / width)) / 2
+    }
+  }
+  return createSignalStore({ length: values.length, channels: { EOG: values } }, RATE)
+}
+
+function blinkLabels(shiftSeconds: number): LabelSegment[] {
+  return BLINK_TIMES.map((time) => ({ start: time + shiftSeconds, end: time + shiftSeconds + BLINK_SECONDS, label: "blink" }))
+}
+
+describe("estimateClockOffset", () => {
+  const store = buildBlinkStore()
+
+  it("finds the shift that moves early labels onto the blinks", () => {
+    const estimate = estimateClockOffset({ store, channel: "EOG", segments: blinkLabels(-0.2), label: "blink" })
+
+    expect(estimate?.offsetMs).toBeCloseTo(200, -1)
+    expect(estimate?.eventCount).toBe(BLINK_TIMES.length)
+    expect(estimate?.confidence).toBeGreaterThan(0.5)
+  })
+
+  it("finds a negative shift for labels that come late", () => {
+    const estimate = estimateClockOffset({ store, channel: "EOG", segments: blinkLabels(0.35), label: "blink" })
+
+    expect(estimate?.offsetMs).toBeCloseTo(-350, -1)
+  })
+
+  it("reports low confidence when the labels have nothing to do with the signal", () => {
+    const segments = [5, 19, 31, 45].map((time) => ({ start: time, end: time + BLINK_SECONDS, label: "blink" }))
+    const estimate = estimateClockOffset({ store, channel: "EOG", segments, label: "blink", maxLagMs: 300 })
+
+    expect(estimate?.confidence ?? 0).toBeLessThan(0.5)
+  })
+
+  it("needs labels of the chosen kind and a known channel", () => {
+    expect(estimateClockOffset({ store, channel: "EOG", segments: blinkLabels(0), label: "left" })).toBeNull()
+    expect(estimateClockOffset({ store, channel: "EMG", segments: blinkLabels(0), label: "blink" })).toBeNull()
+  })
+})
+
+describe("matchLabelEvents", () => {
+  it("anchors each label onset to its own blink", () => {
+    const segments = BLINK_TIMES.map((time, idx) => {
+      // The lag grows along the recording, as with drifting clocks
+      const start = time - 0.1 - idx * 0.01
+      return { start, end: start + BLINK_SECONDS, label: "blink" }
+    })
+    const anchors = matchLabelEvents({ store: buildBlinkStore(), channel: "EOG", segments, label: "blink" })
+
+    expect(anchors).toHaveLength(BLINK_TIMES.length)
+    anchors.forEach((anchor, idx) => {
+      expect(anchor.labelTime).toBe(segments[idx].start)
+      expect(anchor.signalTime).toBeCloseTo(BLINK_TIMES[idx], 1)
+    })
+  })
+})
+
+describe("fitClockDrift", () => {
+  const anchorsFor = (offsetSeconds: number, drift: number, times: number[]): ClockAnchor[] =>
+    times.map((labelTime) => ({ labelTime, signalTime: labelTime + offsetSeconds + drift * labelTime, source: "manual" }))
+
+  it("fits two anchors exactly", () => {
+    const fit = fitClockDrift(anchorsFor(0.12, 50e-6, [10, 1000]))
+
+    expect(fit?.offsetSeconds).toBeCloseTo(0.12, 9)
+    expect(fit?.drift).toBeCloseTo(50e-6, 12)
+    expect(fit?.residualsAfterMs.every((residual) => Math.abs(residual) < 1e-6)).toBe(true)
+  })
+
+  it("needs two anchors at different times", () => {
+    expect(fitClockDrift(anchorsFor(0.12, 0, [10]))).toBeNull()
+    expect(fitClockDrift(anchorsFor(0.12, 0, [10, 10]))).toBeNull()
+  })
+
+  it("leaves an anchor that disagrees with the rest out of the fit", () => {
+    const anchors = anchorsFor(-0.3, -20e-6, [0, 600, 1200, 1800, 2400, 3000])
+    anchors[3] = { ...anchors[3], signalTime: anchors[3].signalTime + 0.25 }
+    const fit = fitClockDrift(anchors)
+
+    expect(fit?.outliers).toEqual([false, false, false, true, false, false])
+    expect(fit?.offsetSeconds).toBeCloseTo(-0.3, 9)
+    expect(fit?.drift).toBeCloseTo(-20e-6, 12)
+    expect(fit?.residualsBeforeMs[1]).toBeCloseTo(-312, 6)
+  })
+})
+
+describe("clock corrections", () => {
+  it("moves each label by the offset plus the drift over its own time", () => {
+    const shifted = shiftSegments([{ start: 100, end: 200, label: "left" }], 0.5, 1e-3)
+
+    expect(shifted).toEqual([{ start: 100.6, end: 200.7, label: "left" }])
+  })
+
+  it("composes a shift on a cropped time base into the correction from the original start", () => {
+    const current = { clockOffsetMs: 150, clockDriftPpm: 30 }
+    const shift = { offsetSeconds: -0.2, drift: 40e-6 }
+    const originSeconds = 120
+    const composed = composeClockCorrection(current, shift, originSeconds)
+
+    // A label at t seconds into the original recording, corrected once and then shifted on the cropped axis
+    for (const t of [0, 120, 500, 3600]) {
+      const corrected = t + current.clockOffsetMs / 1000 + (current.clockDriftPpm / 1e6) * t
+      const cropped = corrected - originSeconds
+      const shifted = cropped + shift.offsetSeconds + shift.drift * cropped + originSeconds
+      const direct = t + composed.clockOffsetMs / 1000 + (composed.clockDriftPpm / 1e6) * t
+
+      expect(direct).toBeCloseTo(shifted, 9)
+    }
+  })
+})
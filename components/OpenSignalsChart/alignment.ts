@@ -0,0 +1,385 @@
+import type { ChannelInfo, ChannelKey, ClockCorrection, LabelSegment, SignalStore } from "./types"
+import { DEFAULT_VISIBLE_CHANNEL } from "./constants"
+
+// The keypress log and the signal are stamped by different clocks, so labels can sit a few
+// hundred ms off the deflections they describe, and the two crystals drift apart over a long
+// session. Lags are estimated against the rectified, baseline-removed EOG trace.
+
+export interface ClockOffsetEstimate {
+  // Shift to add to the current label times, in ms
+  offsetMs: number
+  // Peak normalized cross-correlation
+  correlation: number
+  // 0-1: how strong and how distinct the peak is
+  confidence: number
+  eventCount: number
+}
+
+export interface ClockAnchor {
+  // A label onset and the deflection or sync marker it belongs to, in seconds on the current time base
+  labelTime: number
+  signalTime: number
+  source: "auto" | "marker" | "manual"
+}
+
+// Label shift as a linear function of time: offsetSeconds + drift * t
+export interface ClockShift {
+  offsetSeconds: number
+  drift: number
+}
+
+export interface ClockDriftFit extends ClockShift {
+  // Signal minus label time per anchor, before and after the correction, in ms
+  residualsBeforeMs: number[]
+  residualsAfterMs: number[]
+  // Anchors left out of the fit because they disagree with the rest
+  outliers: boolean[]
+}
+
+const FEATURE_RATE = 100
+const BASELINE_SECONDS = 1
+const SMOOTHING_SECONDS = 0.05
+// Samples further than this many local standard deviations from the baseline are left out of it
+const BASELINE_CLIP = 1
+const BASELINE_PASSES = 3
+const PEAK_EXCLUSION_SECONDS = 0.25
+// Mean deflection, in standard deviations, needed to accept a per-event match
+const MIN_MATCH_SCORE = 1
+const MIN_OUTLIER_MS = 20
+
+export const DEFAULT_ALIGNMENT_LABEL = "blink"
+export const DEFAULT_MAX_LAG_MS = 1000
+
+export function getDefaultAlignmentChannel(channels: ChannelInfo[]): ChannelKey | null {
+  const channel =
+    channels.find((c) => c.sensor === "EOG") ??
+    channels.find((c) => c.columnName === DEFAULT_VISIBLE_CHANNEL) ??
+    channels[0]
+  return channel?.key ?? null
+}
+
+function movingAverage(values: Float64Array, windowSize: number): Float64Array {
+  const half = Math.floor(windowSize / 2)
+  const prefix = new Float64Array(values.length + 1)
+  for (let i = 0; i < values.length; i++) {
+    prefix[i + 1] = prefix[i] + values[i]
+  }
+  const result = new Float64Array(values.length)
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - half)
+    const to = Math.min(values.length, i + half + 1)
+    result[i] = (prefix[to] - prefix[from]) / (to - from)
+  }
+  return result
+}
+
+function standardize(values: Float64Array): boolean {
+  let mean = 0
+  for (const value of values) mean += value
+  mean /= values.length
+  let variance = 0
+  for (const value of values) variance += (value - mean) ** 2
+  const std = Math.sqrt(variance / values.length)
+  if (!(std > 0)) return false
+  for (let i = 0; i < values.length; i++) {
+    values[i] = (values[i] - mean) / std
+  }
+  return true
+}
+
+// Mean of each bin; bins with no valid samples (gaps) repeat the previous value
+function binSignal(values: Float32Array, binSize: number): Float64Array {
+  const binCount = Math.floor(values.length / binSize)
+  const bins = new Float64Array(binCount)
+  let previous = 0
+  for (let bin = 0; bin < binCount; bin++) {
+    let sum = 0
+    let count = 0
+    for (let i = bin * binSize; i < (bin + 1) * binSize; i++) {
+      if (!Number.isNaN(values[i])) {
+        sum += values[i]
+        count++
+      }
+    }
+    previous = count > 0 ? sum / count : previous
+    bins[bin] = previous
+  }
+  return bins
+}
+
+// Moving average that leaves the deflections out: a plain average rises under each blink, so the
+// rectified trace dips to zero at its edges and the correlation peak splits either side of the true lag
+function getRobustBaseline(signal: Float64Array, windowSize: number): Float64Array {
+  let baseline = movingAverage(signal, windowSize)
+  for (let pass = 0; pass < BASELINE_PASSES; pass++) {
+    const current = baseline
+    const residuals = signal.map((value, i) => value - current[i])
+    const spread = movingAverage(residuals.map((value) => value * value), windowSize)
+    const clipped = signal.map((value, i) =>
+      Math.abs(residuals[i]) > BASELINE_CLIP * Math.sqrt(spread[i]) ? current[i] : value
+    )
+    baseline = movingAverage(clipped, windowSize)
+  }
+  return baseline
+}
+
+// Blinks show up as short deflections of either polarity on top of a slow drift
+function getDeflectionTrace(store: SignalStore, channel: ChannelKey): { values: Float64Array; binRate: number } | null {
+  const values = store.channels[channel]
+  if (!values) return null
+
+  const binSize = Math.max(1, Math.round(store.samplingRate / FEATURE_RATE))
+  const binRate = store.samplingRate / binSize
+  const signal = binSignal(values.subarray(0, store.length), binSize)
+  if (signal.length === 0) return null
+
+  const baseline = getRobustBaseline(signal, Math.round(BASELINE_SECONDS * binRate))
+  const deflection = new Float64Array(signal.length)
+  for (let i = 0; i < signal.length; i++) {
+    deflection[i] = Math.abs(signal[i] - baseline[i])
+  }
+  return { values: movingAverage(deflection, Math.max(1, Math.round(SMOOTHING_SECONDS * binRate))), binRate }
+}
+
+export function estimateClockOffset({
+  store,
+  channel,
+  segments,
+  label,
+  maxLagMs = DEFAULT_MAX_LAG_MS,
+}: {
+  store: SignalStore
+  channel: ChannelKey
+  segments: LabelSegment[]
+  label: string
+  maxLagMs?: number
+}): ClockOffsetEstimate | null {
+  const trace = getDeflectionTrace(store, channel)
+  if (!trace) return null
+
+  const { values: feature, binRate } = trace
+  const binCount = feature.length
+  const maxLag = Math.min(Math.round((maxLagMs / 1000) * binRate), Math.floor(binCount / 2))
+  if (maxLag < 1) return null
+
+  const indicator = new Float64Array(binCount)
+  let eventCount = 0
+  let labeledBins = 0
+  for (const segment of segments) {
+    if (segment.label !== label) continue
+    const from = Math.max(0, Math.floor((segment.start - store.startTime) * binRate))
+    const to = Math.min(binCount, Math.ceil((segment.end - store.startTime) * binRate))
+    if (to <= from) continue
+    indicator.fill(1, from, to)
+    eventCount++
+  }
+  for (const value of indicator) labeledBins += value
+  if (eventCount === 0) return null
+  if (!standardize(feature) || !standardize(indicator)) return null
+
+  // Positive lags mean the deflections come after the labels
+  const rawCorrelations = new Float64Array(2 * maxLag + 1)
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const from = Math.max(0, -lag)
+    const to = Math.min(binCount, binCount - lag)
+    let sum = 0
+    for (let i = from; i < to; i++) {
+      sum += indicator[i] * feature[i + lag]
+    }
+    rawCorrelations[lag + maxLag] = sum / (to - from)
+  }
+  // Blinks last longer than a bin, so the raw curve has a ragged top; smooth it before picking the peak
+  const correlations = movingAverage(rawCorrelations, Math.max(1, Math.round(SMOOTHING_SECONDS * binRate)))
+
+  let peakIndex = 0
+  for (let i = 1; i < correlations.length; i++) {
+    if (correlations[i] > correlations[peakIndex]) peakIndex = i
+  }
+  const peak = correlations[peakIndex]
+
+  // Parabolic interpolation for a lag finer than one bin
+  let refinement = 0
+  if (peakIndex > 0 && peakIndex < correlations.length - 1) {
+    const left = correlations[peakIndex - 1]
+    const right = correlations[peakIndex + 1]
+    const curvature = left - 2 * peak + right
+    if (curvature < 0) refinement = (0.5 * (left - right)) / curvature
+  }
+
+  // With a sparse label track the correlation stays small even for a clear match, so strength
+  // is the gap between the mean deflection inside and outside labels, in standard deviations
+  const labeledFraction = labeledBins / binCount
+  const effectSize = peak / Math.sqrt(labeledFraction * (1 - labeledFraction))
+  const strength = Math.min(1, Math.max(0, effectSize))
+
+  // A second peak about as high as the first makes the lag ambiguous
+  const exclusion = Math.round(PEAK_EXCLUSION_SECONDS * binRate)
+  let runnerUp = 0
+  for (let i = 1; i < correlations.length - 1; i++) {
+    const isLocalPeak = correlations[i] >= correlations[i - 1] && correlations[i] >= correlations[i + 1]
+    if (isLocalPeak && Math.abs(i - peakIndex) > exclusion) runnerUp = Math.max(runnerUp, correlations[i])
+  }
+  const distinctness = peak > 0 ? 1 - runnerUp / peak : 0
+
+  // A peak on the window edge may just be the slope towards a lag outside it
+  const onEdge = peakIndex === 0 || peakIndex === correlations.length - 1
+
+  return {
+    offsetMs: ((peakIndex - maxLag + refinement) / binRate) * 1000,
+    correlation: peak,
+    confidence: strength * distinctness * (onEdge ? 0.5 : 1),
+    eventCount,
+  }
+}
+
+// Each event is matched on its own, so the lag is free to change along the recording
+export function matchLabelEvents({
+  store,
+  channel,
+  segments,
+  label,
+  maxLagMs = DEFAULT_MAX_LAG_MS,
+}: {
+  store: SignalStore
+  channel: ChannelKey
+  segments: LabelSegment[]
+  label: string
+  maxLagMs?: number
+}): ClockAnchor[] {
+  const trace = getDeflectionTrace(store, channel)
+  if (!trace || !standardize(trace.values)) return []
+
+  const { values, binRate } = trace
+  const prefix = new Float64Array(values.length + 1)
+  for (let i = 0; i < values.length; i++) {
+    prefix[i + 1] = prefix[i] + values[i]
+  }
+  const maxLag = Math.round((maxLagMs / 1000) * binRate)
+
+  const anchors: ClockAnchor[] = []
+  for (const segment of segments) {
+    if (segment.label !== label) continue
+    const from = Math.floor((segment.start - store.startTime) * binRate)
+    const to = Math.max(from + 1, Math.ceil((segment.end - store.startTime) * binRate))
+
+    let bestScore = -Infinity
+    let bestLag = 0
+    for (let lag = -maxLag; lag <= maxLag; lag++) {
+      if (from + lag < 0 || to + lag > values.length) continue
+      const score = (prefix[to + lag] - prefix[from + lag]) / (to - from)
+      if (score > bestScore) {
+        bestScore = score
+        bestLag = lag
+      }
+    }
+
+    // No clear deflection nearby, or the best match may lie outside the search window
+    if (bestScore < MIN_MATCH_SCORE || Math.abs(bestLag) === maxLag) continue
+    anchors.push({ labelTime: segment.start, signalTime: segment.start + bestLag / binRate, source: "auto" })
+  }
+  return anchors
+}
+
+function fitLine(points: { x: number; y: number }[]): ClockShift | null {
+  const n = points.length
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / n
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / n
+  let covariance = 0
+  let varianceX = 0
+  for (const { x, y } of points) {
+    covariance += (x - meanX) * (y - meanY)
+    varianceX += (x - meanX) ** 2
+  }
+  if (!(varianceX > 0)) return null
+  const drift = covariance / varianceX
+  return { offsetSeconds: meanY - drift * meanX, drift }
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// Median of the pairwise slopes (Theil-Sen); unlike least squares, a wrong anchor can't pull the
+// line towards itself and hide its own residual
+function fitLineRobust(points: { x: number; y: number }[]): ClockShift | null {
+  const slopes: number[] = []
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dx = points[j].x - points[i].x
+      if (dx !== 0) slopes.push((points[j].y - points[i].y) / dx)
+    }
+  }
+  if (slopes.length === 0) return null
+  const drift = median(slopes)
+  return { offsetSeconds: median(points.map((point) => point.y - drift * point.x)), drift }
+}
+
+// Least squares on the lag at each anchor; two anchors give an exact two-point fit, and with
+// more, anchors far off a robust first fit are dropped before the least-squares fit
+export function fitClockDrift(anchors: ClockAnchor[]): ClockDriftFit | null {
+  const points = anchors.map((anchor) => ({ x: anchor.labelTime, y: anchor.signalTime - anchor.labelTime }))
+  const initial = points.length >= 4 ? fitLineRobust(points) : points.length >= 2 ? fitLine(points) : null
+  if (!initial) return null
+
+  const residualOf = (shift: ClockShift, point: { x: number; y: number }) =>
+    point.y - (shift.offsetSeconds + shift.drift * point.x)
+
+  let fit = initial
+  let outliers = points.map(() => false)
+  if (points.length >= 4) {
+    const medianDeviation = median(points.map((point) => Math.abs(residualOf(initial, point))))
+    const threshold = Math.max(MIN_OUTLIER_MS / 1000, 3 * 1.4826 * medianDeviation)
+    const flagged = points.map((point) => Math.abs(residualOf(initial, point)) > threshold)
+    const refit = fitLine(points.filter((_, i) => !flagged[i]))
+    if (refit) {
+      fit = refit
+      outliers = flagged
+    }
+  }
+
+  return {
+    ...fit,
+    residualsBeforeMs: points.map((point) => point.y * 1000),
+    residualsAfterMs: points.map((point) => residualOf(fit, point) * 1000),
+    outliers,
+  }
+}
+
+export function getRmsMs(residualsMs: number[]): number {
+  if (residualsMs.length === 0) return 0
+  return Math.sqrt(residualsMs.reduce((sum, value) => sum + value ** 2, 0) / residualsMs.length)
+}
+
+export function shiftSegments(segments: LabelSegment[], deltaSeconds: number, drift = 0): LabelSegment[] {
+  return segments.map((segment) => ({
+    ...segment,
+    start: segment.start + deltaSeconds + drift * segment.start,
+    end: segment.end + deltaSeconds + drift * segment.end,
+  }))
+}
+
+// Folds a shift measured on the current time base into the correction, which is kept relative
+// to the start of the original recording; `originSeconds` is where the current zero falls in it
+export function composeClockCorrection(
+  current: ClockCorrection,
+  shift: ClockShift,
+  originSeconds: number
+): ClockCorrection {
+  const offsetSeconds = current.clockOffsetMs / 1000
+  const drift = current.clockDriftPpm / 1e6
+  const shiftOffset = shift.offsetSeconds - shift.drift * originSeconds
+  return {
+    clockOffsetMs: (offsetSeconds * (1 + shift.drift) + shiftOffset) * 1000,
+    clockDriftPpm: (drift + shift.drift + drift * shift.drift) * 1e6,
+  }
+}
+
+export function formatOffsetMs(offsetMs: number): string {
+  return `${offsetMs >= 0 ? "+" : ""}${offsetMs.toFixed(0)} ms`
+}
+
+export function formatDriftPpm(driftPpm: number): string {
+  return `${driftPpm >= 0 ? "+" : ""}${driftPpm.toFixed(1)} ppm`
+}
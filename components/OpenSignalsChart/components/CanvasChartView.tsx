@@ -0,0 +1,467 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import type { ChartConfig } from "@/components/ui/chart"
+import type {
+  ChannelKey,
+  ChannelRanges,
+  DataPoint,
+  DraggingEdgeState,
+  HoveredEdgeState,
+  LabelDefinition,
+  LabelSegment,
+  SignalGap,
+  SyncMarker,
+} from "../types"
+import { getLabelColor } from "../utils"
+import { getVisibleSyncMarkers } from "../syncMarkers"
+import type { ChartViewProps } from "./ChartView"
+import { OverviewBrush } from "./OverviewBrush"
+import { SegmentHandles } from "./SegmentHandles"
+import { SyncEventTrack } from "./SyncEventTrack"
+import {
+  CHART_HEIGHT,
+  CHART_MARGIN,
+  CROP_KEEP_COLOR,
+  GAP_COLOR,
+  MAX_VISIBLE_SYNC_MARKERS,
+  PLAYHEAD_COLOR,
+  RANGE_SELECTION_COLOR,
+  SYNC_MARKER_COLOR,
+  getChartLanes,
+  getDomainTicks,
+  getLanePlotHeight,
+  getPaddedDomain,
+  getPlotArea,
+} from "./chartLayout"
+
+const X_TICK_COUNT = 6
+
+interface CanvasScene {
+  width: number
+  data: DataPoint[]
+  labelSegments: LabelSegment[]
+  labelSchema: LabelDefinition[]
+  signalGaps: SignalGap[]
+  syncMarkers: SyncMarker[]
+  playhead: number | null
+  paintRange: LabelSegment | null
+  rangeSelection: [number, number] | null
+  currentDomain: [number, number]
+  timeRange: [number, number]
+  yRanges: ChannelRanges
+  lanes: ChannelKey[][]
+  channelConfig: ChartConfig
+  selectedSegmentIndices: number[]
+  draggingEdge: DraggingEdgeState | null
+  hoveredEdge: HoveredEdgeState | null
+  crop: [number, number] | null
+}
+
+// Canvas can't read CSS variables, so theme colors are looked up on the element
+function resolveColor(element: Element, color: string | undefined, fallback: string): string {
+  if (!color) return fallback
+  const match = color.match(/^var\((--[^)]+)\)$/)
+  if (!match) return color
+  return getComputedStyle(element).getPropertyValue(match[1]).trim() || fallback
+}
+
+function createHatchPattern(ctx: CanvasRenderingContext2D): CanvasPattern | null {
+  const tile = document.createElement("canvas")
+  tile.width = 6
+  tile.height = 6
+  const tileCtx = tile.getContext("2d")
+  if (!tileCtx) return null
+  tileCtx.strokeStyle = GAP_COLOR
+  tileCtx.globalAlpha = 0.45
+  tileCtx.lineWidth = 2
+  tileCtx.beginPath()
+  tileCtx.moveTo(0, 6)
+  tileCtx.lineTo(6, 0)
+  tileCtx.stroke()
+  return ctx.createPattern(tile, "repeat")
+}
+
+function drawScene(ctx: CanvasRenderingContext2D, scene: CanvasScene) {
+  const { width, currentDomain, lanes } = scene
+  const canvas = ctx.canvas
+  const { left: plotLeft, width: plotWidth } = getPlotArea(width)
+  const lanePlotHeight = getLanePlotHeight(lanes.length)
+  const plotTop = CHART_MARGIN.top
+  const plotBottom = CHART_MARGIN.top + lanes.length * (lanePlotHeight + CHART_MARGIN.top) - CHART_MARGIN.top
+  const domainWidth = currentDomain[1] - currentDomain[0] || 1
+
+  // Same time-to-pixel mapping the edge and segment hit tests use
+  const toX = (time: number) => plotLeft + ((time - currentDomain[0]) / domainWidth) * plotWidth
+  const clampX = (time: number) => toX(Math.min(currentDomain[1], Math.max(currentDomain[0], time)))
+  const isVisible = (start: number, end: number) => !(end < currentDomain[0] || start > currentDomain[1])
+
+  const gridColor = resolveColor(canvas, "var(--border)", "#e5e7eb")
+  const textColor = resolveColor(canvas, "var(--muted-foreground)", "#6b7280")
+
+  ctx.clearRect(0, 0, width, CHART_HEIGHT)
+  ctx.font = "11px sans-serif"
+
+  // Crop preview
+  if (scene.crop) {
+    const [cropStart, cropEnd] = scene.crop
+    const [timeMin, timeMax] = scene.timeRange
+    ctx.fillStyle = "hsl(0 0% 50%)"
+    ctx.globalAlpha = 0.3
+    if (cropStart > timeMin) {
+      ctx.fillRect(clampX(timeMin), plotTop, clampX(cropStart) - clampX(timeMin), plotBottom - plotTop)
+    }
+    if (cropEnd < timeMax) {
+      ctx.fillRect(clampX(cropEnd), plotTop, clampX(timeMax) - clampX(cropEnd), plotBottom - plotTop)
+    }
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = CROP_KEEP_COLOR
+    ctx.lineWidth = 2
+    ctx.strokeRect(clampX(cropStart), plotTop, clampX(cropEnd) - clampX(cropStart), plotBottom - plotTop)
+  }
+
+  // Dropped-sample regions
+  const hatch = createHatchPattern(ctx)
+  const minGapWidth = domainWidth / 400
+  for (const gap of scene.signalGaps) {
+    if (!isVisible(gap.start, gap.end)) continue
+    const x1 = clampX(gap.start)
+    const x2 = clampX(Math.max(gap.end, gap.start + minGapWidth))
+    if (hatch) {
+      ctx.fillStyle = hatch
+      ctx.fillRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    }
+    ctx.strokeStyle = GAP_COLOR
+    ctx.globalAlpha = 0.5
+    ctx.lineWidth = 1
+    ctx.strokeRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    ctx.globalAlpha = 1
+  }
+
+  // Rising edges on the shown digital IO tracks
+  ctx.strokeStyle = SYNC_MARKER_COLOR
+  ctx.globalAlpha = 0.8
+  ctx.lineWidth = 1
+  ctx.setLineDash([4, 3])
+  for (const marker of scene.syncMarkers) {
+    ctx.beginPath()
+    ctx.moveTo(toX(marker.time), plotTop)
+    ctx.lineTo(toX(marker.time), plotBottom)
+    ctx.stroke()
+  }
+  ctx.setLineDash([])
+  ctx.globalAlpha = 1
+
+  // Segment bands and edges
+  scene.labelSegments.forEach((segment, idx) => {
+    if (!isVisible(segment.start, segment.end)) return
+    const color = getLabelColor(segment.label, scene.labelSchema)
+    const isSelected = scene.selectedSegmentIndices.includes(idx)
+    const x1 = clampX(segment.start)
+    const x2 = clampX(segment.end)
+
+    ctx.fillStyle = color
+    ctx.globalAlpha = isSelected ? 0.25 : 0.12
+    ctx.fillRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    ctx.globalAlpha = 1
+    if (isSelected) {
+      ctx.strokeStyle = color
+      ctx.lineWidth = 2
+      ctx.strokeRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    }
+
+    for (const edge of ["start", "end"] as const) {
+      const time = segment[edge]
+      if (time < currentDomain[0] || time > currentDomain[1]) continue
+      const isActive =
+        (scene.hoveredEdge?.segmentIndex === idx && scene.hoveredEdge.edge === edge) ||
+        (scene.draggingEdge?.segmentIndex === idx && scene.draggingEdge.edge === edge)
+      ctx.strokeStyle = color
+      ctx.globalAlpha = isActive ? 1 : 0.6
+      ctx.lineWidth = isActive ? 4 : 2
+      ctx.beginPath()
+      ctx.moveTo(toX(time), plotTop)
+      ctx.lineTo(toX(time), plotBottom)
+      ctx.stroke()
+      ctx.globalAlpha = 1
+    }
+  })
+
+  // Labeling mode stroke, Shift+drag range and playhead
+  if (scene.paintRange && isVisible(scene.paintRange.start, scene.paintRange.end)) {
+    const color = getLabelColor(scene.paintRange.label, scene.labelSchema)
+    const x1 = clampX(scene.paintRange.start)
+    const x2 = clampX(scene.paintRange.end)
+    ctx.fillStyle = color
+    ctx.globalAlpha = 0.35
+    ctx.fillRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = color
+    ctx.lineWidth = 1
+    ctx.setLineDash([4, 2])
+    ctx.strokeRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    ctx.setLineDash([])
+  }
+  if (scene.rangeSelection && isVisible(scene.rangeSelection[0], scene.rangeSelection[1])) {
+    const x1 = clampX(scene.rangeSelection[0])
+    const x2 = clampX(scene.rangeSelection[1])
+    ctx.fillStyle = RANGE_SELECTION_COLOR
+    ctx.globalAlpha = 0.15
+    ctx.fillRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+    ctx.globalAlpha = 1
+    ctx.strokeStyle = RANGE_SELECTION_COLOR
+    ctx.lineWidth = 1
+    ctx.strokeRect(x1, plotTop, x2 - x1, plotBottom - plotTop)
+  }
+  if (scene.playhead !== null && isVisible(scene.playhead, scene.playhead)) {
+    ctx.strokeStyle = PLAYHEAD_COLOR
+    ctx.lineWidth = 2
+    ctx.beginPath()
+    ctx.moveTo(toX(scene.playhead), plotTop)
+    ctx.lineTo(toX(scene.playhead), plotBottom)
+    ctx.stroke()
+  }
+
+  // X axis grid and ticks
+  ctx.setLineDash([3, 3])
+  ctx.strokeStyle = gridColor
+  ctx.lineWidth = 1
+  ctx.fillStyle = textColor
+  ctx.textAlign = "center"
+  ctx.textBaseline = "top"
+  for (let i = 0; i < X_TICK_COUNT; i++) {
+    const time = currentDomain[0] + (i / (X_TICK_COUNT - 1)) * domainWidth
+    const x = toX(time)
+    ctx.beginPath()
+    ctx.moveTo(x, plotTop)
+    ctx.lineTo(x, plotBottom)
+    ctx.stroke()
+    ctx.fillText(time.toFixed(2), x, plotBottom + 6)
+  }
+  ctx.setLineDash([])
+  ctx.fillText("Time (seconds)", plotLeft + plotWidth / 2, plotBottom + 26)
+
+  // Lanes: y grid, labels and traces
+  lanes.forEach((laneChannels, laneIdx) => {
+    const laneTop = CHART_MARGIN.top + laneIdx * (lanePlotHeight + CHART_MARGIN.top)
+    const laneBottom = laneTop + lanePlotHeight
+    const primaryDomain = getPaddedDomain(scene.yRanges[laneChannels[0]])
+
+    if (primaryDomain) {
+      const span = primaryDomain[1] - primaryDomain[0] || 1
+      ctx.setLineDash([3, 3])
+      ctx.strokeStyle = gridColor
+      ctx.fillStyle = textColor
+      // Ticks sit in the Y axis gutter, as in the SVG view
+      ctx.textAlign = "right"
+      ctx.textBaseline = "middle"
+      for (const tick of getDomainTicks(primaryDomain)) {
+        const y = laneBottom - ((tick - primaryDomain[0]) / span) * lanePlotHeight
+        ctx.beginPath()
+        ctx.moveTo(plotLeft, y)
+        ctx.lineTo(plotLeft + plotWidth, y)
+        ctx.stroke()
+        ctx.fillText(String(tick), plotLeft - 4, Math.min(laneBottom - 6, Math.max(laneTop + 6, y)))
+      }
+      ctx.setLineDash([])
+    }
+
+    ctx.textAlign = "right"
+    ctx.textBaseline = "top"
+    laneChannels.forEach((channel, channelIdx) => {
+      const color = resolveColor(canvas, scene.channelConfig[channel]?.color as string | undefined, "#2563eb")
+      ctx.fillStyle = color
+      ctx.fillText(String(scene.channelConfig[channel]?.label ?? channel), plotLeft + plotWidth - 4, laneTop + 4 + channelIdx * 14)
+
+      // Overlaid channels keep their own y scale, like the separate Recharts axes
+      const yDomain = getPaddedDomain(scene.yRanges[channel])
+      if (!yDomain) return
+      const span = yDomain[1] - yDomain[0] || 1
+
+      ctx.save()
+      ctx.beginPath()
+      ctx.rect(plotLeft, laneTop, plotWidth, lanePlotHeight)
+      ctx.clip()
+      ctx.strokeStyle = color
+      ctx.lineWidth = 1.5
+      ctx.beginPath()
+      let penDown = false
+      for (const point of scene.data) {
+        const value = point[channel]
+        // Gap-filled samples break the line
+        if (value === undefined || Number.isNaN(value)) {
+          penDown = false
+          continue
+        }
+        const x = toX(point.timestamp)
+        const y = laneBottom - ((value - yDomain[0]) / span) * lanePlotHeight
+        if (penDown) {
+          ctx.lineTo(x, y)
+        } else {
+          ctx.moveTo(x, y)
+          penDown = true
+        }
+      }
+      ctx.stroke()
+      ctx.restore()
+    })
+  })
+}
+
+export function CanvasChartView({
+  data,
+  overviewData,
+  labelSegments,
+  labelSchema,
+  signalGaps,
+  syncTracks,
+  playhead,
+  paintRange,
+  rangeSelection,
+  xDomain,
+  yRanges,
+  visibleChannels,
+  channelConfig,
+  channelLayout,
+  chartRef,
+  selectedSegmentIndices,
+  draggingEdge,
+  hoveredEdge,
+  hoveredQuickAdd,
+  cropStart,
+  cropEnd,
+  showCropPreview,
+  onMouseDown,
+  onMouseMove,
+  onContextMenu,
+  onWheel,
+  onBrushChange,
+  onQuickAddSegment,
+  setHoveredQuickAdd,
+}: ChartViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const [width, setWidth] = useState(0)
+
+  const timeMin = overviewData.length > 0 ? overviewData[0].timestamp : 0
+  const timeMax = overviewData.length > 0 ? overviewData[overviewData.length - 1].timestamp : 0
+  const currentDomain: [number, number] = xDomain || [timeMin, timeMax]
+  const [domainStart, domainEnd] = currentDomain
+  const hasChannels = visibleChannels.length > 0
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [hasChannels])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx || width === 0) return
+
+    // Draw at device resolution so traces stay sharp on high-DPI screens
+    const scale = window.devicePixelRatio || 1
+    canvas.width = Math.round(width * scale)
+    canvas.height = Math.round(CHART_HEIGHT * scale)
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+
+    let crop: [number, number] | null = null
+    if (showCropPreview && (cropStart || cropEnd)) {
+      const startTime = cropStart ? parseFloat(cropStart) : timeMin
+      const endTime = cropEnd ? parseFloat(cropEnd) : timeMax
+      if (!isNaN(startTime) && !isNaN(endTime) && startTime < endTime) {
+        crop = [startTime, endTime]
+      }
+    }
+
+    const visibleSyncMarkers = getVisibleSyncMarkers(syncTracks, [domainStart, domainEnd])
+
+    drawScene(ctx, {
+      width,
+      data,
+      labelSegments,
+      labelSchema,
+      signalGaps,
+      syncMarkers: visibleSyncMarkers.length <= MAX_VISIBLE_SYNC_MARKERS ? visibleSyncMarkers : [],
+      playhead,
+      paintRange,
+      rangeSelection,
+      currentDomain: [domainStart, domainEnd],
+      timeRange: [timeMin, timeMax],
+      yRanges,
+      lanes: getChartLanes(visibleChannels, channelLayout),
+      channelConfig,
+      selectedSegmentIndices,
+      draggingEdge,
+      hoveredEdge,
+      crop,
+    })
+  }, [
+    width,
+    data,
+    labelSegments,
+    labelSchema,
+    signalGaps,
+    syncTracks,
+    playhead,
+    paintRange,
+    rangeSelection,
+    domainStart,
+    domainEnd,
+    timeMin,
+    timeMax,
+    yRanges,
+    visibleChannels,
+    channelLayout,
+    channelConfig,
+    selectedSegmentIndices,
+    draggingEdge,
+    hoveredEdge,
+    cropStart,
+    cropEnd,
+    showCropPreview,
+  ])
+
+  if (!hasChannels) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <p className="text-muted-foreground">No channels to display</p>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={chartRef}
+      onWheel={onWheel}
+      onMouseDown={onMouseDown}
+      onMouseMove={onMouseMove}
+      onContextMenu={onContextMenu}
+      style={{ cursor: hoveredEdge ? "ew-resize" : "grab" }}
+      className="select-none relative"
+    >
+      <canvas ref={canvasRef} className="block w-full" style={{ height: CHART_HEIGHT }} />
+      <SegmentHandles
+        labelSegments={labelSegments}
+        labelSchema={labelSchema}
+        currentDomain={currentDomain}
+        width={width}
+        draggingEdge={draggingEdge}
+        hoveredEdge={hoveredEdge}
+        hoveredQuickAdd={hoveredQuickAdd}
+        onQuickAddSegment={onQuickAddSegment}
+        setHoveredQuickAdd={setHoveredQuickAdd}
+      />
+      <SyncEventTrack tracks={syncTracks} currentDomain={currentDomain} />
+      <OverviewBrush
+        overviewData={overviewData}
+        currentDomain={currentDomain}
+        channelConfig={channelConfig}
+        color={channelConfig[visibleChannels[0]]?.color}
+        onBrushChange={onBrushChange}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+import { Button } from "@/components/ui/button"
+import type { ChartConfig } from "@/components/ui/chart"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ChannelInfo, ChannelKey, ChannelLayout, ChartRenderer } from "../types"
+import { groupChannelsByDevice } from "../opensignals"
+import { SENSOR_TYPES, getTransferFunction, isRawSensor } from "../units"
+
+interface ChannelSelectorProps {
+  channels: ChannelInfo[]
+  channelConfig: ChartConfig
+  visibleChannels: ChannelKey[]
+  channelLayout: ChannelLayout
+  renderer: ChartRenderer
+  onToggleChannel: (channel: ChannelKey) => void
+  onLayoutChange: (layout: ChannelLayout) => void
+  onRendererChange: (renderer: ChartRenderer) => void
+  onSensorChange: (channel: ChannelKey, sensor: string) => void
+}
+
+export function ChannelSelector({
+  channels,
+  channelConfig,
+  visibleChannels,
+  channelLayout,
+  renderer,
+  onToggleChannel,
+  onLayoutChange,
+  onRendererChange,
+  onSensorChange,
+}: ChannelSelectorProps) {
+  const deviceGroups = groupChannelsByDevice(channels)
+  const isMultiDevice = deviceGroups.length > 1
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium">Channels</span>
+          {deviceGroups.map((group) => (
+            <div key={group.deviceId ?? "device"} className="flex flex-wrap items-center gap-2">
+              {isMultiDevice && (
+                <span className="font-mono text-xs text-muted-foreground">{group.deviceId}</span>
+              )}
+              {group.channels.map((channel) => {
+                const isVisible = visibleChannels.includes(channel.key)
+                // Keep at least one channel on screen
+                const isLastVisible = isVisible && visibleChannels.length === 1
+
+                return (
+                  <Button
+                    key={channel.key}
+                    variant={isVisible ? "secondary" : "outline"}
+                    size="sm"
+                    onClick={() => onToggleChannel(channel.key)}
+                    disabled={isLastVisible}
+                    title={channel.deviceId ? `${channel.label} on ${channel.deviceId}` : channel.label}
+                    className={isVisible ? "" : "text-muted-foreground"}
+                  >
+                    <span
+                      className="h-2.5 w-2.5 rounded-sm"
+                      style={{
+                        backgroundColor: channelConfig[channel.key]?.color,
+                        opacity: isVisible ? 1 : 0.35,
+                      }}
+                    />
+                    {channel.label}
+                  </Button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-medium">Layout</span>
+          <Button
+            variant={channelLayout === "stacked" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => onLayoutChange("stacked")}
+          >
+            Stacked
+          </Button>
+          <Button
+            variant={channelLayout === "overlay" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => onLayoutChange("overlay")}
+          >
+            Overlay
+          </Button>
+          <span className="ml-2 text-xs font-medium">Renderer</span>
+          <Button
+            variant={renderer === "svg" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => onRendererChange("svg")}
+          >
+            SVG
+          </Button>
+          <Button
+            variant={renderer === "canvas" ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => onRendererChange("canvas")}
+            title="Faster for long recordings with many segments"
+          >
+            Canvas
+          </Button>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-medium">Units</span>
+        {channels
+          .filter((channel) => visibleChannels.includes(channel.key))
+          .map((channel) => (
+            <div key={channel.key} className="flex items-center gap-1.5">
+              <label htmlFor={`sensor-${channel.key}`} className="text-xs text-muted-foreground">
+                {channelConfig[channel.key]?.label}
+              </label>
+              <Select
+                value={isRawSensor(channel.sensor) ? "RAW" : channel.sensor.toUpperCase()}
+                onValueChange={(value) => onSensorChange(channel.key, value)}
+              >
+                <SelectTrigger id={`sensor-${channel.key}`} size="sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SENSOR_TYPES.map((sensor) => (
+                    <SelectItem key={sensor} value={sensor}>
+                      {sensor === "RAW" ? "Raw ADC" : `${sensor} (${getTransferFunction(sensor).unit})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+import { useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ChannelInfo, ChannelKey, ClockCorrection, LabelSegment, SyncTrack } from "../types"
+import {
+  DEFAULT_ALIGNMENT_LABEL,
+  DEFAULT_MAX_LAG_MS,
+  formatDriftPpm,
+  formatOffsetMs,
+  getDefaultAlignmentChannel,
+  type ClockAnchor,
+  type ClockDriftFit,
+  type ClockOffsetEstimate,
+} from "../alignment"
+import { DriftCorrection } from "./DriftCorrection"
+
+const SLIDER_RANGE_MS = 2 * DEFAULT_MAX_LAG_MS
+const NUDGE_MS = 5
+
+interface ClockAlignmentProps {
+  channels: ChannelInfo[]
+  labels: string[]
+  clockCorrection: ClockCorrection
+  selectedSegment: LabelSegment | null
+  duration: number
+  syncTracks: SyncTrack[]
+  onEstimate: (channel: ChannelKey, label: string) => ClockOffsetEstimate | null
+  onApplyOffset: (offsetMs: number, coalesceKey?: string) => void
+  onMatchEvents: (channel: ChannelKey, label: string) => ClockAnchor[]
+  onMatchMarkers: (track: SyncTrack, label: string, maxLagMs: number) => ClockAnchor[]
+  onApplyDrift: (fit: ClockDriftFit) => void
+}
+
+function describeConfidence(confidence: number): string {
+  if (confidence >= 0.6) return "high"
+  if (confidence >= 0.3) return "moderate"
+  return "low"
+}
+
+export function ClockAlignment({
+  channels,
+  labels,
+  clockCorrection,
+  selectedSegment,
+  duration,
+  syncTracks,
+  onEstimate,
+  onApplyOffset,
+  onMatchEvents,
+  onMatchMarkers,
+  onApplyDrift,
+}: ClockAlignmentProps) {
+  const { clockOffsetMs, clockDriftPpm } = clockCorrection
+  const [expanded, setExpanded] = useState(false)
+  const [channel, setChannel] = useState<ChannelKey>(() => getDefaultAlignmentChannel(channels) ?? "")
+  const [label, setLabel] = useState(DEFAULT_ALIGNMENT_LABEL)
+  const [estimate, setEstimate] = useState<(ClockOffsetEstimate & { proposedOffsetMs: number }) | null>(null)
+  const [estimateFailed, setEstimateFailed] = useState(false)
+  // One undo step per slider drag
+  const dragKeyRef = useRef<string | null>(null)
+
+  const activeChannel = channels.some((c) => c.key === channel) ? channel : getDefaultAlignmentChannel(channels)
+  const activeLabel = labels.includes(label) ? label : labels[0]
+  const sliderMax = Math.max(SLIDER_RANGE_MS, Math.ceil(Math.abs(clockOffsetMs) / 100) * 100)
+
+  const handleEstimate = () => {
+    if (!activeChannel || !activeLabel) return
+    const result = onEstimate(activeChannel, activeLabel)
+    setEstimateFailed(result === null)
+    // The estimate is relative to the labels as they are now, so add the offset already applied
+    setEstimate(result ? { ...result, proposedOffsetMs: clockOffsetMs + result.offsetMs } : null)
+  }
+
+  const handleSliderChange = ([value]: number[]) => {
+    dragKeyRef.current ??= `clock-offset-${Date.now()}`
+    onApplyOffset(value, dragKeyRef.current)
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Clock Alignment</h3>
+          <p className="text-xs text-muted-foreground">
+            Labels shifted by {formatOffsetMs(clockOffsetMs)}
+            {clockDriftPpm !== 0 && ` with ${formatDriftPpm(clockDriftPpm)} drift`} to match the signal clock
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? "Hide" : "Show"} Alignment
+        </Button>
+      </div>
+      {expanded && (
+        <>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium">EOG channel</span>
+              <Select value={activeChannel ?? ""} onValueChange={setChannel}>
+                <SelectTrigger size="sm" aria-label="EOG channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map((c) => (
+                    <SelectItem key={c.key} value={c.key}>
+                      {c.deviceId ? `${c.label} (${c.deviceId})` : c.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium">Match label</span>
+              <Select value={activeLabel ?? ""} onValueChange={setLabel} disabled={labels.length === 0}>
+                <SelectTrigger size="sm" aria-label="Label to match">
+                  <SelectValue placeholder="No labels" />
+                </SelectTrigger>
+                <SelectContent>
+                  {labels.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleEstimate} disabled={!activeChannel || !activeLabel}>
+              Estimate Offset
+            </Button>
+          </div>
+          {estimateFailed && (
+            <p className="text-xs text-destructive">
+              Could not estimate an offset: the channel is flat or no &quot;{activeLabel}&quot; segments fall within the
+              recording.
+            </p>
+          )}
+          {estimate && (
+            <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
+              <p className="text-xs">
+                <span className="font-medium">Proposed offset {formatOffsetMs(estimate.proposedOffsetMs)}</span>
+                <span className="text-muted-foreground">
+                  {" "}
+                  ({describeConfidence(estimate.confidence)} confidence, {(estimate.confidence * 100).toFixed(0)}%;
+                  r = {estimate.correlation.toFixed(3)} over {estimate.eventCount} segment
+                  {estimate.eventCount === 1 ? "" : "s"})
+                </span>
+              </p>
+              <Button size="sm" onClick={() => onApplyOffset(estimate.proposedOffsetMs)}>
+                Apply Offset
+              </Button>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between text-xs">
+              <span className="font-medium">Fine-tune</span>
+              <span className="font-mono tabular-nums">{formatOffsetMs(clockOffsetMs)}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onApplyOffset(clockOffsetMs - NUDGE_MS)}
+                title={`Shift labels ${NUDGE_MS} ms earlier`}
+              >
+                −{NUDGE_MS}
+              </Button>
+              <Slider
+                min={-sliderMax}
+                max={sliderMax}
+                step={1}
+                value={[clockOffsetMs]}
+                onValueChange={handleSliderChange}
+                onValueCommit={() => {
+                  dragKeyRef.current = null
+                }}
+                aria-label="Clock offset"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onApplyOffset(clockOffsetMs + NUDGE_MS)}
+                title={`Shift labels ${NUDGE_MS} ms later`}
+              >
+                +{NUDGE_MS}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onApplyOffset(0)} disabled={clockOffsetMs === 0}>
+                Reset
+              </Button>
+            </div>
+          </div>
+          <DriftCorrection
+            channel={activeChannel}
+            label={activeLabel}
+            selectedSegment={selectedSegment}
+            duration={duration}
+            clockDriftPpm={clockDriftPpm}
+            syncTracks={syncTracks}
+            onMatchEvents={onMatchEvents}
+            onMatchMarkers={onMatchMarkers}
+            onApplyDrift={onApplyDrift}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ChannelKey, LabelSegment, SyncTrack } from "../types"
+import { getDefaultSyncTrack } from "../syncMarkers"
+import {
+  DEFAULT_MAX_LAG_MS,
+  fitClockDrift,
+  formatDriftPpm,
+  formatOffsetMs,
+  getRmsMs,
+  type ClockAnchor,
+  type ClockDriftFit,
+} from "../alignment"
+
+interface DriftCorrectionProps {
+  channel: ChannelKey | null
+  label: string | undefined
+  selectedSegment: LabelSegment | null
+  duration: number
+  clockDriftPpm: number
+  syncTracks: SyncTrack[]
+  onMatchEvents: (channel: ChannelKey, label: string) => ClockAnchor[]
+  onMatchMarkers: (track: SyncTrack, label: string, maxLagMs: number) => ClockAnchor[]
+  onApplyDrift: (fit: ClockDriftFit) => void
+}
+
+export function DriftCorrection({
+  channel,
+  label,
+  selectedSegment,
+  duration,
+  clockDriftPpm,
+  syncTracks,
+  onMatchEvents,
+  onMatchMarkers,
+  onApplyDrift,
+}: DriftCorrectionProps) {
+  const [anchors, setAnchors] = useState<ClockAnchor[]>([])
+  const [anchorLabelTime, setAnchorLabelTime] = useState("")
+  const [anchorSignalTime, setAnchorSignalTime] = useState("")
+  const [matchFailed, setMatchFailed] = useState<ClockAnchor["source"] | null>(null)
+  const [markerTrackKey, setMarkerTrackKey] = useState<string | null>(null)
+  const [markerWindowMs, setMarkerWindowMs] = useState(String(DEFAULT_MAX_LAG_MS))
+
+  const fit = fitClockDrift(anchors)
+  const inliers = (residualsMs: number[]) => residualsMs.filter((_, i) => !fit?.outliers[i])
+  const labelTime = parseFloat(anchorLabelTime)
+  const signalTime = parseFloat(anchorSignalTime)
+  const canAddAnchor = Number.isFinite(labelTime) && Number.isFinite(signalTime)
+  const markerTracks = syncTracks.filter((track) => track.markers.some((marker) => marker.edge === "rising"))
+  const markerTrack = markerTracks.find((track) => track.key === markerTrackKey) ?? getDefaultSyncTrack(markerTracks)
+  const markerWindow = parseFloat(markerWindowMs)
+
+  // Matching again replaces earlier anchors from the same source but keeps the rest
+  const replaceAnchors = (source: ClockAnchor["source"], matched: ClockAnchor[]) => {
+    setMatchFailed(matched.length === 0 ? source : null)
+    setAnchors((prev) =>
+      [...prev.filter((anchor) => anchor.source !== source), ...matched].sort((a, b) => a.labelTime - b.labelTime)
+    )
+  }
+
+  const handleMatchEvents = () => {
+    if (!channel || !label) return
+    replaceAnchors("auto", onMatchEvents(channel, label))
+  }
+
+  const handleMatchMarkers = () => {
+    if (!markerTrack || !label || !(markerWindow > 0)) return
+    replaceAnchors("marker", onMatchMarkers(markerTrack, label, markerWindow))
+  }
+
+  const handleAddAnchor = () => {
+    if (!canAddAnchor) return
+    setAnchors((prev) =>
+      [...prev, { labelTime, signalTime, source: "manual" as const }].sort((a, b) => a.labelTime - b.labelTime)
+    )
+    setAnchorLabelTime("")
+    setAnchorSignalTime("")
+  }
+
+  const handleApply = () => {
+    if (!fit) return
+    onApplyDrift(fit)
+    // Anchor label times refer to the labels before the correction
+    setAnchors([])
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div>
+        <h4 className="text-xs font-medium">Drift Correction</h4>
+        <p className="text-xs text-muted-foreground">
+          Fit a linear drift from anchors pairing a label onset with its deflection in the signal or a hardware sync
+          marker; two anchors give an exact two-point fit. Current drift: {formatDriftPpm(clockDriftPpm)}
+        </p>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        <Button variant="outline" size="sm" onClick={handleMatchEvents} disabled={!channel || !label}>
+          Match Events
+        </Button>
+        <div className="space-y-1.5">
+          <label htmlFor="anchor-label-time" className="text-xs font-medium">
+            Label time (s)
+          </label>
+          <div className="flex gap-1">
+            <Input
+              id="anchor-label-time"
+              type="number"
+              step="0.001"
+              className="h-8 w-28"
+              value={anchorLabelTime}
+              onChange={(e) => setAnchorLabelTime(e.target.value)}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => selectedSegment && setAnchorLabelTime(selectedSegment.start.toFixed(3))}
+              disabled={!selectedSegment}
+              title="Use the start of the selected segment"
+            >
+              From Selection
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <label htmlFor="anchor-signal-time" className="text-xs font-medium">
+            Signal time (s)
+          </label>
+          <Input
+            id="anchor-signal-time"
+            type="number"
+            step="0.001"
+            className="h-8 w-28"
+            value={anchorSignalTime}
+            onChange={(e) => setAnchorSignalTime(e.target.value)}
+          />
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAddAnchor} disabled={!canAddAnchor}>
+          Add Anchor
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setAnchors([])} disabled={anchors.length === 0}>
+          Clear Anchors
+        </Button>
+      </div>
+      {markerTracks.length > 0 && (
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1.5">
+            <span className="text-xs font-medium">Sync channel</span>
+            <Select value={markerTrack?.key ?? ""} onValueChange={setMarkerTrackKey}>
+              <SelectTrigger size="sm" aria-label="Sync marker channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {markerTracks.map((track) => (
+                  <SelectItem key={track.key} value={track.key}>
+                    {track.column} ({track.deviceId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <label htmlFor="marker-window" className="text-xs font-medium">
+              Window (ms)
+            </label>
+            <Input
+              id="marker-window"
+              type="number"
+              min="1"
+              step="100"
+              className="h-8 w-24"
+              value={markerWindowMs}
+              onChange={(e) => setMarkerWindowMs(e.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleMatchMarkers}
+            disabled={!markerTrack || !label || !(markerWindow > 0)}
+            title="Pair each label onset with the nearest rising edge on the sync channel"
+          >
+            Match Markers
+          </Button>
+        </div>
+      )}
+      {matchFailed === "auto" && (
+        <p className="text-xs text-destructive">
+          No &quot;{label}&quot; segment could be matched to a clear deflection on this channel.
+        </p>
+      )}
+      {matchFailed === "marker" && (
+        <p className="text-xs text-destructive">
+          No &quot;{label}&quot; segment starts within {markerWindowMs} ms of a rising edge on {markerTrack?.column}.
+        </p>
+      )}
+      {anchors.length > 0 && (
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium">Label time</th>
+                <th className="text-left font-medium">Signal time</th>
+                <th className="text-left font-medium">Residual before</th>
+                <th className="text-left font-medium">Residual after</th>
+                <th className="text-left font-medium">Source</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody className="font-mono tabular-nums">
+              {anchors.map((anchor, index) => (
+                <tr
+                  key={`${anchor.source}-${anchor.labelTime}-${anchor.signalTime}`}
+                  className={fit?.outliers[index] ? "text-muted-foreground line-through" : ""}
+                >
+                  <td>{anchor.labelTime.toFixed(3)}s</td>
+                  <td>{anchor.signalTime.toFixed(3)}s</td>
+                  <td>{formatOffsetMs((anchor.signalTime - anchor.labelTime) * 1000)}</td>
+                  <td>{fit ? formatOffsetMs(fit.residualsAfterMs[index]) : "—"}</td>
+                  <td className="font-sans">{anchor.source}</td>
+                  <td className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2"
+                      onClick={() => setAnchors((prev) => prev.filter((_, i) => i !== index))}
+                    >
+                      Remove
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {fit ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border bg-background px-3 py-2">
+          <p className="text-xs">
+            <span className="font-medium">
+              Drift {formatDriftPpm(fit.drift * 1e6)} ({formatOffsetMs(fit.drift * duration * 1000)} over the
+              recording), offset {formatOffsetMs(fit.offsetSeconds * 1000)} at 0 s
+            </span>
+            <span className="text-muted-foreground">
+              {" "}
+              — RMS residual {getRmsMs(inliers(fit.residualsBeforeMs)).toFixed(1)} ms before,{" "}
+              {getRmsMs(inliers(fit.residualsAfterMs)).toFixed(1)} ms after
+              {fit.outliers.some(Boolean) && `, ${fit.outliers.filter(Boolean).length} outlier(s) left out`}
+            </span>
+          </p>
+          <Button size="sm" onClick={handleApply}>
+            Apply Drift Correction
+          </Button>
+        </div>
+      ) : (
+        anchors.length > 0 && (
+          <p className="text-xs text-muted-foreground">Add anchors at two or more different times to fit a drift.</p>
+        )
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,14 @@
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import type { SavedSession } from "../types"
+import { RecentSessions } from "./RecentSessions"
+import { isEdfFile } from "../edf"
 
 interface FileUploadProps {
   signalFile: File | null
   keypressFile: File | null
+  fillGaps: boolean
+  onFillGapsChange: (value: boolean) => void
   loading: boolean
   error: string | null
   signalInputRef: React.RefObject<HTMLInputElement | null>
@@ -11,11 +16,17 @@ interface FileUploadProps {
   onSignalFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   onKeypressFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void
   onLoadFiles: () => void
+  onOpenProject: (file: File) => void
+  recentSessions: SavedSession[]
+  onResumeSession: (id: string) => void
+  onDiscardSession: (id: string) => void
 }
 
 export function FileUpload({
   signalFile,
   keypressFile,
+  fillGaps,
+  onFillGapsChange,
   loading,
   error,
   signalInputRef,
@@ -23,6 +34,10 @@ export function FileUpload({
   onSignalFileChange,
   onKeypressFileChange,
   onLoadFiles,
+  onOpenProject,
+  recentSessions,
+  onResumeSession,
+  onDiscardSession,
 }: FileUploadProps) {
   return (
     <div className="w-full space-y-6">
@@ -35,13 +50,13 @@ export function FileUpload({
       <div className="space-y-4 rounded-lg border p-6">
         <div className="space-y-2">
           <label htmlFor="signal-file" className="text-sm font-medium">
-            OpenSignals Data File
+            Signal File (OpenSignals .txt or .h5, or EDF+/BDF+)
           </label>
           <Input
             ref={signalInputRef}
             id="signal-file"
             type="file"
-            accept=".txt"
+            accept=".txt,.h5,.hdf5,.edf,.bdf"
             onChange={onSignalFileChange}
           />
           {signalFile && (
@@ -52,13 +67,13 @@ export function FileUpload({
         </div>
         <div className="space-y-2">
           <label htmlFor="keypress-file" className="text-sm font-medium">
-            Keypress Labels File
+            Labels File (keypress .txt or events .csv/.tsv/.json; optional for EDF+/BDF+)
           </label>
           <Input
             ref={keypressInputRef}
             id="keypress-file"
             type="file"
-            accept=".txt"
+            accept=".txt,.csv,.tsv,.json"
             onChange={onKeypressFileChange}
           />
           {keypressFile && (
@@ -67,9 +82,17 @@ export function FileUpload({
             </p>
           )}
         </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={fillGaps}
+            onChange={(e) => onFillGapsChange(e.target.checked)}
+          />
+          Fill dropped samples (detected from nSeq) with gaps to keep timestamps true
+        </label>
         <Button
           onClick={onLoadFiles}
-          disabled={!signalFile || !keypressFile || loading}
+          disabled={!signalFile || (!keypressFile && !isEdfFile(signalFile)) || loading}
           className="w-full"
         >
           {loading ? "Loading..." : "Load Data"}
@@ -78,6 +101,31 @@ export function FileUpload({
           <p className="text-sm text-destructive">{error}</p>
         )}
       </div>
+      <div className="space-y-2 rounded-lg border p-6">
+        <label htmlFor="project-file" className="text-sm font-medium">
+          Or open a project file (.zip)
+        </label>
+        <Input
+          id="project-file"
+          type="file"
+          accept=".zip"
+          disabled={loading}
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ""
+            if (file) onOpenProject(file)
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          Projects exported with Export Project restore the recording, labels, crop and view exactly.
+        </p>
+      </div>
+      <RecentSessions
+        sessions={recentSessions}
+        loading={loading}
+        onResume={onResumeSession}
+        onDiscard={onDiscardSession}
+      />
     </div>
   )
 }
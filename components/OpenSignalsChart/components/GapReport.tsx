@@ -0,0 +1,66 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import type { SignalGap } from "../types"
+
+interface GapReportProps {
+  gaps: SignalGap[]
+  samplingRate: number
+  filled: boolean
+  onJumpToGap: (gap: SignalGap) => void
+}
+
+export function GapReport({ gaps, samplingRate, filled, onJumpToGap }: GapReportProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  if (gaps.length === 0) return null
+
+  const totalMissing = gaps.reduce((sum, gap) => sum + gap.missingSamples, 0)
+  const sampleIntervalMs = 1000 / samplingRate
+
+  return (
+    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm">
+          <span className="font-medium">{gaps.length} gap{gaps.length === 1 ? "" : "s"} detected</span>
+          <span className="text-muted-foreground">
+            {" "}({totalMissing.toLocaleString()} dropped samples, {(totalMissing * sampleIntervalMs).toFixed(0)} ms).
+            {filled
+              ? " Gaps are filled with empty samples so timestamps stay true."
+              : " Samples after each gap are shifted earlier."}
+          </span>
+        </p>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? "Hide" : "Show"} Gaps
+        </Button>
+      </div>
+      {expanded && (
+        <div className="max-h-48 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium">Time</th>
+                <th className="text-left font-medium">Sample</th>
+                <th className="text-left font-medium">Missing</th>
+                <th className="text-left font-medium">Length</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono tabular-nums">
+              {gaps.map((gap) => (
+                <tr
+                  key={gap.sampleIndex}
+                  className="cursor-pointer hover:bg-amber-500/10"
+                  onClick={() => onJumpToGap(gap)}
+                >
+                  <td>{gap.start.toFixed(3)}s</td>
+                  <td>{gap.sampleIndex.toLocaleString()}</td>
+                  <td>{gap.missingSamples}</td>
+                  <td>{(gap.missingSamples * sampleIntervalMs).toFixed(1)} ms</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
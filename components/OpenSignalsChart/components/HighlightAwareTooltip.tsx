@@ -1,14 +1,15 @@
 import type { ComponentProps } from "react"
 import { ChartTooltipContent } from "@/components/ui/chart"
-import type { LabelSegment } from "../types"
+import type { LabelDefinition, LabelSegment } from "../types"
 import { getLabelColor, formatSegmentRange, findSegmentAtTimestamp } from "../utils"
 
 type TooltipContentProps = ComponentProps<typeof ChartTooltipContent>
 
 export function HighlightAwareTooltipContent({
   labelSegments,
+  labelSchema,
   ...tooltipProps
-}: TooltipContentProps & { labelSegments: LabelSegment[] }) {
+}: TooltipContentProps & { labelSegments: LabelSegment[]; labelSchema: LabelDefinition[] }) {
   if (!tooltipProps.active || !tooltipProps.payload?.length) {
     return null
   }
@@ -32,7 +33,7 @@ export function HighlightAwareTooltipContent({
           <div className="flex items-center gap-1.5">
             <span
               className="h-2.5 w-2.5 rounded-sm"
-              style={{ backgroundColor: getLabelColor(activeSegment.label) }}
+              style={{ backgroundColor: getLabelColor(activeSegment.label, labelSchema) }}
             />
             <span className="font-medium text-foreground">{activeSegment.label}</span>
           </div>
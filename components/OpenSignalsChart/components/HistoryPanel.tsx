@@ -0,0 +1,91 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import type { EditSnapshot, HistoryEntry } from "../types"
+
+interface HistoryPanelProps {
+  entries: HistoryEntry<EditSnapshot>[]
+  cursor: number
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onJumpTo: (cursor: number) => void
+}
+
+export function HistoryPanel({
+  entries,
+  cursor,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJumpTo,
+}: HistoryPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Edit History</h3>
+          <p className="text-xs text-muted-foreground">
+            {entries.length === 0
+              ? "No edits yet"
+              : `${cursor} of ${entries.length} edit${entries.length === 1 ? "" : "s"} applied`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} title="Ctrl+Z">
+            Undo
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} title="Ctrl+Shift+Z">
+            Redo
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setExpanded(!expanded)}
+            disabled={entries.length === 0}
+          >
+            {expanded ? "Hide" : "Show"} History
+          </Button>
+        </div>
+      </div>
+      {expanded && entries.length > 0 && (
+        <ol className="max-h-48 overflow-y-auto text-xs">
+          <li>
+            <button
+              type="button"
+              onClick={() => onJumpTo(0)}
+              className={`w-full rounded px-2 py-1 text-left hover:bg-muted ${cursor === 0 ? "font-medium" : "text-muted-foreground"}`}
+            >
+              Loaded data
+            </button>
+          </li>
+          {entries.map((entry, idx) => {
+            const isCurrent = idx + 1 === cursor
+            // Undone steps stay listed until a new edit replaces them
+            const isUndone = idx + 1 > cursor
+
+            return (
+              <li key={entry.id}>
+                <button
+                  type="button"
+                  onClick={() => onJumpTo(idx + 1)}
+                  className={`flex w-full justify-between gap-3 rounded px-2 py-1 text-left hover:bg-muted ${
+                    isCurrent ? "bg-muted font-medium" : ""
+                  } ${isUndone ? "text-muted-foreground line-through" : ""}`}
+                >
+                  <span>{entry.description}</span>
+                  <span className="font-mono tabular-nums text-muted-foreground">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
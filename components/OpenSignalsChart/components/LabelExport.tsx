@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LabelExportFormat } from "../types"
+
+const FORMAT_LABELS: Record<LabelExportFormat, string> = {
+  "events-csv": "Events CSV",
+  "events-json": "Events JSON",
+  "bids-tsv": "BIDS events.tsv",
+  keypress: "Keypress (per sample)",
+}
+
+interface LabelExportProps {
+  format: LabelExportFormat
+  disabled: boolean
+  onFormatChange: (format: LabelExportFormat) => void
+  onExport: () => void
+}
+
+export function LabelExport({ format, disabled, onFormatChange, onExport }: LabelExportProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={format} onValueChange={(value) => onFormatChange(value as LabelExportFormat)}>
+        <SelectTrigger size="sm" aria-label="Label export format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FORMAT_LABELS) as LabelExportFormat[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {FORMAT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={onExport} disabled={disabled}>
+        Export Labels
+      </Button>
+    </div>
+  )
+}
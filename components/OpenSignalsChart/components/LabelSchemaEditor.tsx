@@ -0,0 +1,183 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { LabelDefinition } from "../types"
+import { getNextLabelColor, normalizeHotkey, toHexColor, validateLabelSchema } from "../labelSchema"
+
+export interface LabelRename {
+  from: string
+  to: string
+}
+
+interface LabelSchemaEditorProps {
+  schema: LabelDefinition[]
+  usedLabels: string[]
+  onSave: (schema: LabelDefinition[], renames: LabelRename[]) => void
+  onResetToDefault: () => void
+}
+
+// Rows remember the name they were loaded with, so renaming a label can carry its segments along
+interface DraftRow extends LabelDefinition {
+  id: number
+  originalName: string | null
+}
+
+function toDraft(schema: LabelDefinition[]): DraftRow[] {
+  return schema.map((definition, index) => ({ ...definition, id: index, originalName: definition.name }))
+}
+
+export function LabelSchemaEditor({ schema, usedLabels, onSave, onResetToDefault }: LabelSchemaEditorProps) {
+  const [draft, setDraft] = useState<DraftRow[] | null>(null)
+
+  const definitions = draft?.map(({ name, color, hotkey, description }) => ({
+    name: name.trim(),
+    color,
+    hotkey,
+    description: description.trim(),
+  }))
+  const validationError = definitions ? validateLabelSchema(definitions) : null
+
+  const updateRow = (id: number, update: Partial<LabelDefinition>) => {
+    setDraft((prev) => prev && prev.map((row) => (row.id === id ? { ...row, ...update } : row)))
+  }
+
+  const handleAddRow = () => {
+    setDraft(
+      (prev) =>
+        prev && [
+          ...prev,
+          {
+            id: Math.max(-1, ...prev.map((row) => row.id)) + 1,
+            originalName: null,
+            name: "",
+            color: getNextLabelColor(prev),
+            hotkey: null,
+            description: "",
+          },
+        ]
+    )
+  }
+
+  const handleSave = () => {
+    if (!draft || !definitions || validationError) return
+    const renames = draft
+      .map((row, index) => ({ from: row.originalName, to: definitions[index].name }))
+      .filter((rename): rename is LabelRename => rename.from !== null && rename.from !== rename.to)
+    onSave(definitions, renames)
+    setDraft(null)
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Label Schema</h3>
+          <p className="text-xs text-muted-foreground">
+            {schema.length} allowed label{schema.length === 1 ? "" : "s"}, saved with the session:{" "}
+            {schema.map((definition) => definition.name).join(", ")}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setDraft(draft ? null : toDraft(schema))}>
+          {draft ? "Hide" : "Edit"} Schema
+        </Button>
+      </div>
+      {draft && (
+        <>
+          <div className="max-h-72 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-medium">Color</th>
+                  <th className="text-left font-medium">Name</th>
+                  <th className="text-left font-medium">Hotkey</th>
+                  <th className="text-left font-medium">Description</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {draft.map((row) => {
+                  const inUse = row.originalName !== null && usedLabels.includes(row.originalName)
+                  return (
+                    <tr key={row.id}>
+                      <td className="pr-2">
+                        <input
+                          type="color"
+                          className="h-7 w-9 cursor-pointer rounded border bg-transparent"
+                          value={toHexColor(row.color)}
+                          onChange={(e) => updateRow(row.id, { color: e.target.value })}
+                          aria-label={`Color of ${row.name || "new label"}`}
+                        />
+                      </td>
+                      <td className="pr-2">
+                        <Input
+                          className="h-7"
+                          value={row.name}
+                          onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                          placeholder="Label name"
+                        />
+                      </td>
+                      <td className="pr-2">
+                        <Input
+                          className="h-7 w-14 font-mono"
+                          maxLength={1}
+                          value={row.hotkey ?? ""}
+                          onChange={(e) => updateRow(row.id, { hotkey: normalizeHotkey(e.target.value) })}
+                          aria-label={`Hotkey of ${row.name || "new label"}`}
+                        />
+                      </td>
+                      <td className="pr-2">
+                        <Input
+                          className="h-7"
+                          value={row.description}
+                          onChange={(e) => updateRow(row.id, { description: e.target.value })}
+                          placeholder="What the label means"
+                        />
+                      </td>
+                      <td className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2"
+                          onClick={() => setDraft((prev) => prev && prev.filter((r) => r.id !== row.id))}
+                          title={inUse ? "Segments keep this label and will be flagged as outside the schema" : undefined}
+                        >
+                          Remove
+                        </Button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+          {validationError && <p className="text-xs text-destructive">{validationError}</p>}
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleAddRow}>
+              Add Label
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDraft(toDraft(schema))}>
+              Discard Changes
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                onResetToDefault()
+                setDraft(null)
+              }}
+            >
+              Reset to Default
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={validationError !== null}>
+              Save Schema
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Renaming a label also renames its segments. Removing one leaves its segments in place, flagged as outside
+            the schema.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LabelDefinition, LabelSegment } from "../types"
+import { LABELING_STEP_OPTIONS, PLAYBACK_RATE_OPTIONS } from "../hooks/useLabelingMode"
+
+interface LabelingToolbarProps {
+  labelSchema: LabelDefinition[]
+  active: boolean
+  playhead: number | null
+  paintRange: LabelSegment | null
+  samplingRate: number
+  stepSeconds: number
+  playing: boolean
+  playbackRate: number
+  onStart: () => void
+  onStop: () => void
+  onStepChange: (seconds: number) => void
+  onPlayingChange: (playing: boolean) => void
+  onPlaybackRateChange: (rate: number) => void
+}
+
+function formatStep(seconds: number): string {
+  return seconds < 1 ? `${Math.round(seconds * 1000)} ms` : `${seconds} s`
+}
+
+export function LabelingToolbar({
+  labelSchema,
+  active,
+  playhead,
+  paintRange,
+  samplingRate,
+  stepSeconds,
+  playing,
+  playbackRate,
+  onStart,
+  onStop,
+  onStepChange,
+  onPlayingChange,
+  onPlaybackRateChange,
+}: LabelingToolbarProps) {
+  const hotkeyLabels = labelSchema.filter((definition) => definition.hotkey)
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Labeling Mode</h3>
+          <p className="text-xs text-muted-foreground">
+            {active
+              ? `Playhead at ${playhead?.toFixed(3)}s. Hold a hotkey to paint its label while the playhead moves; ← → step one sample (${formatStep(1 / samplingRate)}), Shift+← → step ${formatStep(stepSeconds)}, Space plays, Escape cancels a stroke or leaves the mode.`
+              : "Label with the keyboard: move a playhead over the signal and hold a label's hotkey to paint it."}
+          </p>
+        </div>
+        <Button variant={active ? "default" : "outline"} size="sm" onClick={active ? onStop : onStart}>
+          {active ? "Stop" : "Start"} Labeling
+        </Button>
+      </div>
+      {active && (
+        <>
+          <div className="flex flex-wrap items-center gap-3">
+            <Button variant="outline" size="sm" onClick={() => onPlayingChange(!playing)}>
+              {playing ? "Pause" : "Play"}
+            </Button>
+            <div className="flex items-center gap-1.5">
+              <span className="text-xs font-medium">Speed</span>
+              <Select value={String(playbackRate)} onValueChange={(value) => onPlaybackRateChange(Number(value))}>
+                <SelectTrigger size="sm" aria-label="Playback speed">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLAYBACK_RATE_OPTIONS.map((rate) => (
+                    <SelectItem key={rate} value={String(rate)}>
+                      {rate}×
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <span className="text-xs font-medium">Shift+arrow step</span>
+              <Select value={String(stepSeconds)} onValueChange={(value) => onStepChange(Number(value))}>
+                <SelectTrigger size="sm" aria-label="Shift+arrow step">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LABELING_STEP_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {formatStep(seconds)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {paintRange && (
+              <span className="text-xs font-medium">
+                Painting &quot;{paintRange.label}&quot; {paintRange.start.toFixed(3)}s – {paintRange.end.toFixed(3)}s
+              </span>
+            )}
+          </div>
+          {hotkeyLabels.length === 0 ? (
+            <p className="text-xs text-destructive">No label in the schema has a hotkey yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {hotkeyLabels.map((definition) => (
+                <span
+                  key={definition.name}
+                  className={`flex items-center gap-1.5 ${paintRange?.label === definition.name ? "font-medium text-foreground" : ""}`}
+                >
+                  <kbd className="rounded border px-1 font-mono text-[10px]">{definition.hotkey}</kbd>
+                  <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: definition.color }} />
+                  {definition.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
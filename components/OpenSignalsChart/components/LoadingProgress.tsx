@@ -0,0 +1,36 @@
+import { Button } from "@/components/ui/button"
+import type { ParseProgress } from "../types"
+
+interface LoadingProgressProps {
+  progress: ParseProgress | null
+  onCancel: () => void
+}
+
+function formatMegabytes(bytes: number): string {
+  return (bytes / (1024 * 1024)).toFixed(1)
+}
+
+export function LoadingProgress({ progress, onCancel }: LoadingProgressProps) {
+  const percent =
+    progress && progress.totalBytes > 0
+      ? Math.min(100, Math.round((progress.bytesRead / progress.totalBytes) * 100))
+      : 0
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-3 p-8">
+      <p className="text-muted-foreground">Loading data... {percent}%</p>
+      <div className="h-2 w-full max-w-md overflow-hidden rounded-full bg-muted">
+        <div className="h-full bg-primary transition-[width]" style={{ width: `${percent}%` }} />
+      </div>
+      {progress && (
+        <p className="font-mono text-xs tabular-nums text-muted-foreground">
+          {formatMegabytes(progress.bytesRead)} / {formatMegabytes(progress.totalBytes)} MB,{" "}
+          {progress.rowsParsed.toLocaleString()} rows
+        </p>
+      )}
+      <Button variant="outline" size="sm" onClick={onCancel}>
+        Cancel
+      </Button>
+    </div>
+  )
+}
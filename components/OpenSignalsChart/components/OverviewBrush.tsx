@@ -0,0 +1,50 @@
+"use client"
+
+import { LineChart, Brush } from "recharts"
+import { ChartContainer, type ChartConfig } from "@/components/ui/chart"
+import type { DataPoint } from "../types"
+import { CHART_MARGIN, OVERVIEW_HEIGHT, PLOT_LEFT } from "./chartLayout"
+
+interface OverviewBrushProps {
+  overviewData: DataPoint[]
+  currentDomain: [number, number]
+  channelConfig: ChartConfig
+  color: string | undefined
+  onBrushChange: (domain: { startIndex?: number; endIndex?: number } | null) => void
+}
+
+// The brush spans the whole recording, so it works on the overview rather than the viewport detail
+export function OverviewBrush({
+  overviewData,
+  currentDomain,
+  channelConfig,
+  color,
+  onBrushChange,
+}: OverviewBrushProps) {
+  return (
+    <ChartContainer config={channelConfig} className="w-full" style={{ height: OVERVIEW_HEIGHT }}>
+      <LineChart
+        data={overviewData}
+        margin={{ top: 5, right: CHART_MARGIN.right, left: PLOT_LEFT, bottom: 5 }}
+      >
+        <Brush
+          dataKey="timestamp"
+          height={30}
+          stroke={color}
+          fill="var(--color-muted)"
+          fillOpacity={0.4}
+          onChange={onBrushChange}
+          startIndex={(() => {
+            const idx = overviewData.findIndex((d) => d.timestamp >= currentDomain[0])
+            return idx >= 0 ? idx : 0
+          })()}
+          endIndex={(() => {
+            const idx = overviewData.findIndex((d) => d.timestamp >= currentDomain[1])
+            return idx >= 0 ? idx : overviewData.length - 1
+          })()}
+          tickFormatter={(value) => value.toFixed(1)}
+        />
+      </LineChart>
+    </ChartContainer>
+  )
+}
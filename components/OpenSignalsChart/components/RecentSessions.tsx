@@ -0,0 +1,47 @@
+import { Button } from "@/components/ui/button"
+import type { SavedSession } from "../types"
+
+interface RecentSessionsProps {
+  sessions: SavedSession[]
+  loading: boolean
+  onResume: (id: string) => void
+  onDiscard: (id: string) => void
+}
+
+export function RecentSessions({ sessions, loading, onResume, onDiscard }: RecentSessionsProps) {
+  if (sessions.length === 0) return null
+
+  return (
+    <div className="space-y-3 rounded-lg border p-6">
+      <div>
+        <h3 className="text-sm font-medium">Recent Sessions</h3>
+        <p className="text-xs text-muted-foreground">
+          Labeling sessions are saved in this browser as you work. Resume one to pick up where you left off.
+        </p>
+      </div>
+      <ul className="divide-y">
+        {sessions.map((session) => (
+          <li key={session.id} className="flex items-center justify-between gap-3 py-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{session.name}</p>
+              <p className="truncate text-xs text-muted-foreground">
+                {session.labelSegments.length.toLocaleString()} segments
+                {session.cropOffsetSamples > 0 && ", cropped"}
+                {" "}| Labels: {session.sourceFiles.keypress ?? "embedded in recording"}
+                {" "}| Last modified {new Date(session.updatedAt).toLocaleString()}
+              </p>
+            </div>
+            <div className="flex shrink-0 gap-2">
+              <Button size="sm" onClick={() => onResume(session.id)} disabled={loading}>
+                Resume
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onDiscard(session.id)} disabled={loading}>
+                Discard
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
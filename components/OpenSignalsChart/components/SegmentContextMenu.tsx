@@ -0,0 +1,124 @@
+import { useEffect, useRef } from "react"
+import type { LabelDefinition, LabelSegment } from "../types"
+import { MERGE_SEGMENT_KEY, SPLIT_SEGMENT_KEY } from "../constants"
+
+const MENU_WIDTH = 200
+
+export interface SegmentContextMenuState {
+  segmentIndex: number
+  // Where the menu was opened, as a time on the plot and a position in the chart container
+  time: number
+  x: number
+  y: number
+}
+
+interface SegmentContextMenuProps {
+  menu: SegmentContextMenuState
+  segment: LabelSegment
+  labelSchema: LabelDefinition[]
+  canSplit: boolean
+  mergeCount: number
+  onSplit: () => void
+  onMerge: () => void
+  onRelabel: (label: string) => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+function MenuItem({
+  onClick,
+  disabled,
+  shortcut,
+  children,
+}: {
+  onClick: () => void
+  disabled?: boolean
+  shortcut?: string
+  children: React.ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted disabled:pointer-events-none disabled:opacity-50"
+      onClick={onClick}
+      disabled={disabled}
+    >
+      <span className="flex flex-1 items-center gap-2">{children}</span>
+      {shortcut && <kbd className="rounded border px-1 font-mono text-[10px] text-muted-foreground">{shortcut}</kbd>}
+    </button>
+  )
+}
+
+export function SegmentContextMenu({
+  menu,
+  segment,
+  labelSchema,
+  canSplit,
+  mergeCount,
+  onSplit,
+  onMerge,
+  onRelabel,
+  onDelete,
+  onClose,
+}: SegmentContextMenuProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+
+  useEffect(() => {
+    containerRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener("mousedown", handleMouseDown)
+    return () => document.removeEventListener("mousedown", handleMouseDown)
+  }, [onClose])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Segment shortcuts act on the selection themselves; the menu only needs Escape
+    e.stopPropagation()
+    if (e.key === "Escape") onClose()
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      onContextMenu={(e) => e.preventDefault()}
+      className="absolute z-20 space-y-1 rounded-md border bg-background p-1 shadow-lg outline-none"
+      style={{ left: Math.max(0, menu.x), top: menu.y, width: MENU_WIDTH }}
+    >
+      <p className="px-2 pt-1 text-xs text-muted-foreground">
+        &quot;{segment.label}&quot; {segment.start.toFixed(3)}s – {segment.end.toFixed(3)}s
+      </p>
+      <MenuItem onClick={onSplit} disabled={!canSplit} shortcut={SPLIT_SEGMENT_KEY}>
+        Split at {menu.time.toFixed(3)}s
+      </MenuItem>
+      <MenuItem onClick={onMerge} disabled={mergeCount < 2} shortcut={MERGE_SEGMENT_KEY}>
+        {mergeCount < 2 ? "Merge with neighbours" : `Merge ${mergeCount} touching "${segment.label}" segments`}
+      </MenuItem>
+      <MenuItem onClick={onDelete} shortcut="Del">
+        Delete
+      </MenuItem>
+      <div className="border-t pt-1">
+        <p className="px-2 pb-0.5 text-[10px] font-medium uppercase text-muted-foreground">Relabel as</p>
+        <div className="max-h-48 overflow-y-auto">
+          {labelSchema.map((definition) => (
+            <MenuItem
+              key={definition.name}
+              onClick={() => onRelabel(definition.name)}
+              disabled={definition.name === segment.label}
+              shortcut={definition.hotkey ?? undefined}
+            >
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: definition.color }} />
+              {definition.name}
+            </MenuItem>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
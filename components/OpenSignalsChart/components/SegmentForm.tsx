@@ -7,12 +7,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { getLabelColor } from "../utils"
+import type { LabelDefinition } from "../types"
+import { findLabelDefinition, resolveLabelName } from "../labelSchema"
 
 interface SegmentFormProps {
   timeMin: number
   timeMax: number
-  uniqueLabelNames: string[]
+  labelSchema: LabelDefinition[]
   newSegmentStart: string
   newSegmentEnd: string
   newSegmentLabel: string
@@ -27,7 +28,7 @@ interface SegmentFormProps {
 export function SegmentForm({
   timeMin,
   timeMax,
-  uniqueLabelNames,
+  labelSchema,
   newSegmentStart,
   newSegmentEnd,
   newSegmentLabel,
@@ -39,7 +40,7 @@ export function SegmentForm({
   onAddSegment,
 }: SegmentFormProps) {
   const handleAdd = () => {
-    onAddSegment(newSegmentStart, newSegmentEnd, newSegmentLabel)
+    onAddSegment(newSegmentStart, newSegmentEnd, resolveLabelName(newSegmentLabel, labelSchema))
   }
 
   const handleClear = () => {
@@ -110,18 +111,23 @@ export function SegmentForm({
               <SelectValue placeholder="Select a label..." />
             </SelectTrigger>
             <SelectContent>
-              {uniqueLabelNames.length === 0 ? (
+              {labelSchema.length === 0 ? (
                 <SelectItem value="__custom__">Enter custom label</SelectItem>
               ) : (
                 <>
-                  {uniqueLabelNames.map((label) => (
-                    <SelectItem key={label} value={label}>
+                  {labelSchema.map((definition) => (
+                    <SelectItem key={definition.name} value={definition.name} title={definition.description}>
                       <div className="flex items-center gap-2">
                         <span
                           className="h-2.5 w-2.5 rounded-sm"
-                          style={{ backgroundColor: getLabelColor(label) }}
+                          style={{ backgroundColor: definition.color }}
                         />
-                        {label}
+                        {definition.name}
+                        {definition.hotkey && (
+                          <kbd className="rounded border px-1 font-mono text-[10px] text-muted-foreground">
+                            {definition.hotkey}
+                          </kbd>
+                        )}
                       </div>
                     </SelectItem>
                   ))}
@@ -139,6 +145,13 @@ export function SegmentForm({
               autoFocus
             />
           )}
+          {isCustomLabel &&
+            newSegmentLabel.trim() &&
+            !findLabelDefinition(labelSchema, resolveLabelName(newSegmentLabel, labelSchema)) && (
+              <p className="text-xs text-muted-foreground">
+                Not in the label schema; it will be flagged until it&apos;s added or mapped.
+              </p>
+            )}
         </div>
         <Button
           onClick={handleAdd}
@@ -0,0 +1,136 @@
+"use client"
+
+import type { LabelDefinition, LabelSegment, DraggingEdgeState, HoveredEdgeState } from "../types"
+import { getLabelColor } from "../utils"
+import { CHART_HEIGHT, CHART_MARGIN, getPlotArea } from "./chartLayout"
+
+interface SegmentHandlesProps {
+  labelSegments: LabelSegment[]
+  labelSchema: LabelDefinition[]
+  currentDomain: [number, number]
+  // Measured width of the chart container, 0 until it has been laid out
+  width: number
+  draggingEdge: DraggingEdgeState | null
+  hoveredEdge: HoveredEdgeState | null
+  hoveredQuickAdd: number | null
+  onQuickAddSegment: (startTime: number) => void
+  setHoveredQuickAdd: (idx: number | null) => void
+}
+
+export function SegmentHandles({
+  labelSegments,
+  labelSchema,
+  currentDomain,
+  width,
+  draggingEdge,
+  hoveredEdge,
+  hoveredQuickAdd,
+  onQuickAddSegment,
+  setHoveredQuickAdd,
+}: SegmentHandlesProps) {
+  if (width === 0) return null
+
+  // SVG overlay for draggable circles at segment boundaries
+  return (
+    <svg
+      className="absolute top-0 left-0 w-full pointer-events-none"
+      style={{ overflow: 'visible', height: CHART_HEIGHT }}
+    >
+      {labelSegments.map((segment, idx) => {
+        // Only show circles for segments visible in current domain
+        if (segment.end < currentDomain[0] || segment.start > currentDomain[1]) {
+          return null
+        }
+      
+        const color = getLabelColor(segment.label, labelSchema)
+        const isHoveringStart = hoveredEdge?.segmentIndex === idx && hoveredEdge?.edge === 'start'
+        const isHoveringEnd = hoveredEdge?.segmentIndex === idx && hoveredEdge?.edge === 'end'
+        const isDraggingStart = draggingEdge?.segmentIndex === idx && draggingEdge?.edge === 'start'
+        const isDraggingEnd = draggingEdge?.segmentIndex === idx && draggingEdge?.edge === 'end'
+      
+        // Calculate pixel positions
+        const plot = getPlotArea(width)
+        const chartHeight = CHART_HEIGHT
+        const margin = CHART_MARGIN
+        const plotHeight = chartHeight - margin.top - margin.bottom
+        const domainWidth = currentDomain[1] - currentDomain[0]
+      
+        const startX = plot.left + ((segment.start - currentDomain[0]) / domainWidth) * plot.width
+        const endX = plot.left + ((segment.end - currentDomain[0]) / domainWidth) * plot.width
+      
+        // Position circles in the middle of the chart vertically
+        const circleY = margin.top + plotHeight / 2
+      
+        const circleRadius = (isHoveringStart || isDraggingStart || isHoveringEnd || isDraggingEnd) ? 8 : 6
+      
+        const isHoveringQuickAdd = hoveredQuickAdd === idx
+      
+        return (
+          <g key={`circles-${segment.label}-${idx}-${segment.start.toFixed(3)}`}>
+            {/* Start circle */}
+            <circle
+              cx={startX}
+              cy={circleY}
+              r={circleRadius}
+              fill={color}
+              fillOpacity={isHoveringStart || isDraggingStart ? 0.9 : 0.7}
+              stroke="white"
+              strokeWidth={isHoveringStart || isDraggingStart ? 2 : 1.5}
+            />
+            {/* End circle */}
+            <circle
+              cx={endX}
+              cy={circleY}
+              r={circleRadius}
+              fill={color}
+              fillOpacity={isHoveringEnd || isDraggingEnd ? 0.9 : 0.7}
+              stroke="white"
+              strokeWidth={isHoveringEnd || isDraggingEnd ? 2 : 1.5}
+            />
+            {/* Quick-add button */}
+            <g
+              transform={`translate(${endX + 15}, ${circleY})`}
+              style={{ cursor: 'pointer', pointerEvents: 'auto' }}
+              onClick={(e) => {
+                e.stopPropagation()
+                onQuickAddSegment(segment.end)
+              }}
+              onMouseEnter={() => setHoveredQuickAdd(idx)}
+              onMouseLeave={() => setHoveredQuickAdd(null)}
+            >
+              {/* Background circle */}
+              <circle
+                cx={0}
+                cy={0}
+                r={isHoveringQuickAdd ? 11 : 10}
+                fill="hsl(142 71% 45%)"
+                fillOpacity={isHoveringQuickAdd ? 1 : 0.9}
+                stroke="white"
+                strokeWidth={2}
+              />
+              {/* Plus symbol */}
+              <line
+                x1={-4}
+                y1={0}
+                x2={4}
+                y2={0}
+                stroke="white"
+                strokeWidth={2}
+                strokeLinecap="round"
+              />
+              <line
+                x1={0}
+                y1={-4}
+                x2={0}
+                y2={4}
+                stroke="white"
+                strokeWidth={2}
+                strokeLinecap="round"
+              />
+            </g>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { LabelDefinition } from "../types"
+import type { PendingRange } from "../hooks/useRangeSelection"
+import { resolveLabelName } from "../labelSchema"
+import { isEditableTarget } from "../utils"
+
+const PICKER_WIDTH = 220
+
+interface SegmentLabelPickerProps {
+  range: PendingRange
+  labelSchema: LabelDefinition[]
+  onPick: (label: string) => void
+  onCancel: () => void
+}
+
+// Opens where a Shift+drag ended; a label's hotkey picks it without reaching for the mouse
+export function SegmentLabelPicker({ range, labelSchema, onPick, onCancel }: SegmentLabelPickerProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null)
+  const [customLabel, setCustomLabel] = useState("")
+
+  useEffect(() => {
+    containerRef.current?.focus()
+  }, [])
+
+  useEffect(() => {
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) onCancel()
+    }
+    document.addEventListener("mousedown", handleMouseDown)
+    return () => document.removeEventListener("mousedown", handleMouseDown)
+  }, [onCancel])
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keep labeling-mode and segment shortcuts from acting on the chart while picking
+    e.stopPropagation()
+    if (e.key === "Escape") {
+      onCancel()
+      return
+    }
+    if (isEditableTarget(e.target)) {
+      if (e.key === "Enter" && customLabel.trim()) onPick(resolveLabelName(customLabel, labelSchema))
+      return
+    }
+    const definition = labelSchema.find((candidate) => candidate.hotkey === e.key.toLowerCase())
+    if (definition) {
+      e.preventDefault()
+      onPick(definition.name)
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      onMouseDown={(e) => e.stopPropagation()}
+      className="absolute z-20 space-y-2 rounded-md border bg-background p-2 shadow-lg outline-none"
+      style={{ left: Math.max(0, range.x - PICKER_WIDTH / 2), top: range.y + 8, width: PICKER_WIDTH }}
+    >
+      <p className="text-xs text-muted-foreground">
+        {range.start.toFixed(3)}s – {range.end.toFixed(3)}s ({(range.end - range.start).toFixed(3)}s)
+      </p>
+      <div className="max-h-56 space-y-0.5 overflow-y-auto">
+        {labelSchema.map((definition) => (
+          <button
+            key={definition.name}
+            type="button"
+            className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-xs hover:bg-muted"
+            onClick={() => onPick(definition.name)}
+            title={definition.description}
+          >
+            <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: definition.color }} />
+            <span className="flex-1">{definition.name}</span>
+            {definition.hotkey && (
+              <kbd className="rounded border px-1 font-mono text-[10px] text-muted-foreground">{definition.hotkey}</kbd>
+            )}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        <Input
+          className="h-7 text-xs"
+          placeholder="Other label"
+          value={customLabel}
+          onChange={(e) => setCustomLabel(e.target.value)}
+        />
+        <Button
+          size="sm"
+          className="h-7"
+          onClick={() => onPick(resolveLabelName(customLabel, labelSchema))}
+          disabled={!customLabel.trim()}
+        >
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
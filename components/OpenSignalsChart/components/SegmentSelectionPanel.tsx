@@ -0,0 +1,145 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LabelDefinition, LabelSegment } from "../types"
+import { getLabelColor } from "../utils"
+
+interface SegmentSelectionPanelProps {
+  selectedSegments: LabelSegment[]
+  labelSchema: LabelDefinition[]
+  onClear: () => void
+  onKeepLabel: (label: string) => void
+  onRelabel: (label: string) => void
+  onShift: (offsetMs: number) => void
+  onSnap: () => void
+  onDelete: () => void
+}
+
+function LabelOption({ label, labelSchema }: { label: string; labelSchema: LabelDefinition[] }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: getLabelColor(label, labelSchema) }} />
+      {label}
+    </div>
+  )
+}
+
+export function SegmentSelectionPanel({
+  selectedSegments,
+  labelSchema,
+  onClear,
+  onKeepLabel,
+  onRelabel,
+  onShift,
+  onSnap,
+  onDelete,
+}: SegmentSelectionPanelProps) {
+  const [relabelTarget, setRelabelTarget] = useState("")
+  const [shiftMs, setShiftMs] = useState("")
+
+  if (selectedSegments.length === 0) return null
+
+  const labelCounts = new Map<string, number>()
+  for (const segment of selectedSegments) {
+    labelCounts.set(segment.label, (labelCounts.get(segment.label) ?? 0) + 1)
+  }
+  const count = selectedSegments.length
+  const start = Math.min(...selectedSegments.map((segment) => segment.start))
+  const end = Math.max(...selectedSegments.map((segment) => segment.end))
+  const parsedShift = parseFloat(shiftMs)
+  const canShift = Number.isFinite(parsedShift) && parsedShift !== 0
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">
+            {count} segment{count === 1 ? "" : "s"} selected
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            {start.toFixed(3)}s – {end.toFixed(3)}s:{" "}
+            {Array.from(labelCounts, ([label, labelCount]) => `${labelCount} ${label}`).join(", ")}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClear}>
+          Clear Selection
+        </Button>
+      </div>
+      <div className="flex flex-wrap items-end gap-3">
+        {labelCounts.size > 1 && (
+          <div className="space-y-1.5">
+            <span className="text-xs font-medium">Keep only</span>
+            <Select value="" onValueChange={onKeepLabel}>
+              <SelectTrigger size="sm" aria-label="Keep only segments with this label">
+                <SelectValue placeholder="Label" />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from(labelCounts.keys()).map((label) => (
+                  <SelectItem key={label} value={label}>
+                    <LabelOption label={label} labelSchema={labelSchema} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="space-y-1.5">
+          <span className="text-xs font-medium">Relabel as</span>
+          <div className="flex gap-1">
+            <Select value={relabelTarget} onValueChange={setRelabelTarget}>
+              <SelectTrigger size="sm" aria-label="New label for the selection">
+                <SelectValue placeholder="Label" />
+              </SelectTrigger>
+              <SelectContent>
+                {labelSchema.map((definition) => (
+                  <SelectItem key={definition.name} value={definition.name}>
+                    <LabelOption label={definition.name} labelSchema={labelSchema} />
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={() => onRelabel(relabelTarget)} disabled={!relabelTarget}>
+              Relabel
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <label htmlFor="selection-shift-ms" className="text-xs font-medium">
+            Shift (ms, negative is earlier)
+          </label>
+          <div className="flex gap-1">
+            <Input
+              id="selection-shift-ms"
+              type="number"
+              step="1"
+              className="h-8 w-24"
+              value={shiftMs}
+              onChange={(e) => setShiftMs(e.target.value)}
+            />
+            <Button variant="outline" size="sm" onClick={() => onShift(parsedShift)} disabled={!canShift}>
+              Shift
+            </Button>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onSnap}
+          title="Move every boundary of the selection onto the nearest sample"
+        >
+          Snap to Samples
+        </Button>
+        <Button variant="outline" size="sm" onClick={onDelete}>
+          Delete {count === 1 ? "Segment" : `${count} Segments`}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest"
+import { getEditedCellTime } from "./SegmentTable"
+
+describe("getEditedCellTime", () => {
+  it("leaves the segment alone when a cell is focused and left without typing", () => {
+    expect(getEditedCellTime("1.235", 1.23456)).toBeNull()
+    expect(getEditedCellTime("0.000", 0)).toBeNull()
+  })
+
+  it("returns the typed time once the text changes", () => {
+    expect(getEditedCellTime("1.5", 1.23456)).toBe(1.5)
+    expect(getEditedCellTime("1.2350", 1.23456)).toBe(1.235)
+  })
+
+  it("returns NaN for text that is not a time, so the cell is put back", () => {
+    expect(getEditedCellTime("", 1.23456)).toBeNaN()
+  })
+})
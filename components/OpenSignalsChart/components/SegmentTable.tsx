@@ -0,0 +1,357 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { ChannelInfo, ChannelKey, LabelDefinition, LabelSegment, SignalStore } from "../types"
+import { MIN_SEGMENT_DURATION } from "../constants"
+import { computeSegmentStats, type SegmentStats } from "../segmentStats"
+import { getChannelUnit } from "../units"
+import { getLabelColor } from "../utils"
+
+// Only the rows in view are rendered, so recordings with thousands of segments stay responsive
+const ROW_HEIGHT = 32
+const TABLE_HEIGHT = 360
+const OVERSCAN_ROWS = 6
+const ALL_LABELS = "__all__"
+
+type SortKey = "index" | "label" | "start" | "end" | "duration" | "mean" | "peakToPeak"
+
+const COLUMNS: { key: SortKey; title: string }[] = [
+  { key: "index", title: "#" },
+  { key: "label", title: "Label" },
+  { key: "start", title: "Start (s)" },
+  { key: "end", title: "End (s)" },
+  { key: "duration", title: "Duration (s)" },
+  { key: "mean", title: "Mean" },
+  { key: "peakToPeak", title: "Peak-to-peak" },
+]
+
+interface SegmentRow {
+  index: number
+  segment: LabelSegment
+  duration: number
+  stats: SegmentStats
+}
+
+interface SegmentTableProps {
+  labelSegments: LabelSegment[]
+  labelSchema: LabelDefinition[]
+  signalStore: SignalStore
+  channels: ChannelInfo[]
+  // Stats follow this channel until another one is picked in the table
+  activeChannel: ChannelKey | undefined
+  selectedSegmentIndices: number[]
+  onSelectSegment: (index: number) => void
+  onEditLabel: (index: number, label: string) => void
+  onEditBounds: (index: number, start: number, end: number) => void
+}
+
+function compareRows(a: SegmentRow, b: SegmentRow, key: SortKey): number {
+  switch (key) {
+    case "index":
+      return a.index - b.index
+    case "label":
+      return a.segment.label.localeCompare(b.segment.label)
+    case "start":
+      return a.segment.start - b.segment.start
+    case "end":
+      return a.segment.end - b.segment.end
+    case "duration":
+      return a.duration - b.duration
+    default: {
+      // Segments without samples sort last either way
+      const valueA = a.stats[key]
+      const valueB = b.stats[key]
+      if (Number.isNaN(valueA) || Number.isNaN(valueB)) return Number.isNaN(valueA) ? (Number.isNaN(valueB) ? 0 : 1) : -1
+      return valueA - valueB
+    }
+  }
+}
+
+function formatStat(value: number): string {
+  return Number.isNaN(value) ? "—" : value.toPrecision(4)
+}
+
+function formatCellTime(value: number): string {
+  return value.toFixed(3)
+}
+
+// The time a cell's text asks for, or null while it still shows the segment's (rounded) time.
+// Comparing the text keeps a focus and blur from snapping the segment to the displayed precision
+export function getEditedCellTime(text: string, value: number): number | null {
+  return text === formatCellTime(value) ? null : parseFloat(text)
+}
+
+// Commits on Enter or blur; Escape or an invalid value puts the segment's time back
+function TimeCell({ value, onCommit }: { value: number; onCommit: (value: number) => boolean }) {
+  const commit = (input: HTMLInputElement) => {
+    const edited = getEditedCellTime(input.value, value)
+    if (edited === null) return
+    if (!Number.isFinite(edited) || !onCommit(edited)) input.value = formatCellTime(value)
+  }
+
+  return (
+    <Input
+      key={value}
+      type="number"
+      step="0.001"
+      className="h-7 w-24 px-1.5 font-mono text-xs tabular-nums"
+      defaultValue={formatCellTime(value)}
+      onBlur={(e) => commit(e.currentTarget)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit(e.currentTarget)
+        if (e.key === "Escape") e.currentTarget.value = formatCellTime(value)
+      }}
+    />
+  )
+}
+
+export function SegmentTable({
+  labelSegments,
+  labelSchema,
+  signalStore,
+  channels,
+  activeChannel,
+  selectedSegmentIndices,
+  onSelectSegment,
+  onEditLabel,
+  onEditBounds,
+}: SegmentTableProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [statsChannelKey, setStatsChannelKey] = useState<ChannelKey | null>(null)
+  const [labelFilter, setLabelFilter] = useState(ALL_LABELS)
+  const [minDuration, setMinDuration] = useState("")
+  const [maxDuration, setMaxDuration] = useState("")
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "index", descending: false })
+  const [scrollTop, setScrollTop] = useState(0)
+  const scrollRef = useRef<HTMLDivElement | null>(null)
+
+  const statsChannel =
+    channels.find((channel) => channel.key === statsChannelKey) ??
+    channels.find((channel) => channel.key === activeChannel) ??
+    channels[0]
+
+  const stats = useMemo(
+    () => (expanded && statsChannel ? computeSegmentStats(signalStore, labelSegments, statsChannel) : []),
+    [expanded, signalStore, labelSegments, statsChannel]
+  )
+
+  const rows = useMemo(() => {
+    const min = parseFloat(minDuration)
+    const max = parseFloat(maxDuration)
+    const filtered = labelSegments
+      .map((segment, index) => ({
+        index,
+        segment,
+        duration: segment.end - segment.start,
+        stats: stats[index] ?? { mean: NaN, peakToPeak: NaN },
+      }))
+      .filter(
+        (row) =>
+          (labelFilter === ALL_LABELS || row.segment.label === labelFilter) &&
+          !(row.duration < min) &&
+          !(row.duration > max)
+      )
+    const direction = sort.descending ? -1 : 1
+    return filtered.sort((a, b) => direction * compareRows(a, b, sort.key) || a.index - b.index)
+  }, [labelSegments, stats, labelFilter, minDuration, maxDuration, sort])
+
+  // A segment picked on the chart scrolls into view here
+  const focusedIndex = selectedSegmentIndices.length === 1 ? selectedSegmentIndices[0] : null
+  useEffect(() => {
+    const container = scrollRef.current
+    if (!container || focusedIndex === null) return
+    const position = rows.findIndex((row) => row.index === focusedIndex)
+    if (position === -1) return
+    const rowTop = position * ROW_HEIGHT
+    if (rowTop < container.scrollTop || rowTop + ROW_HEIGHT > container.scrollTop + TABLE_HEIGHT - ROW_HEIGHT) {
+      container.scrollTop = Math.max(0, rowTop - TABLE_HEIGHT / 2)
+    }
+  }, [focusedIndex, rows])
+
+  if (labelSegments.length === 0) return null
+
+  const presentLabels = Array.from(new Set(labelSegments.map((segment) => segment.label)))
+  const unit = statsChannel ? getChannelUnit(statsChannel) : ""
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS)
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + TABLE_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS)
+
+  const handleSort = (key: SortKey) => {
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : false }))
+  }
+
+  const editStart = (row: SegmentRow, start: number) => {
+    if (row.segment.end - start < MIN_SEGMENT_DURATION) return false
+    onEditBounds(row.index, start, row.segment.end)
+    return true
+  }
+
+  const editEnd = (row: SegmentRow, end: number) => {
+    if (end - row.segment.start < MIN_SEGMENT_DURATION) return false
+    onEditBounds(row.index, row.segment.start, end)
+    return true
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Segments</h3>
+          <p className="text-xs text-muted-foreground">
+            {rows.length === labelSegments.length || !expanded
+              ? `${labelSegments.length.toLocaleString()} segments`
+              : `${rows.length.toLocaleString()} of ${labelSegments.length.toLocaleString()} segments match the filter`}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? "Hide" : "Show"} Table
+        </Button>
+      </div>
+      {expanded && (
+        <>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium">Label</span>
+              <Select value={labelFilter} onValueChange={setLabelFilter}>
+                <SelectTrigger size="sm" aria-label="Filter by label">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LABELS}>All labels</SelectItem>
+                  {presentLabels.map((label) => (
+                    <SelectItem key={label} value={label}>
+                      <div className="flex items-center gap-2">
+                        <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: getLabelColor(label, labelSchema) }} />
+                        {label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium">Duration (s)</span>
+              <div className="flex items-center gap-1">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Min"
+                  aria-label="Minimum duration"
+                  className="h-8 w-20"
+                  value={minDuration}
+                  onChange={(e) => setMinDuration(e.target.value)}
+                />
+                <span className="text-xs text-muted-foreground">–</span>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="Max"
+                  aria-label="Maximum duration"
+                  className="h-8 w-20"
+                  value={maxDuration}
+                  onChange={(e) => setMaxDuration(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-1.5">
+              <span className="text-xs font-medium">Stats channel</span>
+              <Select value={statsChannel?.key ?? ""} onValueChange={setStatsChannelKey}>
+                <SelectTrigger size="sm" aria-label="Channel for segment stats">
+                  <SelectValue placeholder="No channel" />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map((channel) => (
+                    <SelectItem key={channel.key} value={channel.key}>
+                      {channel.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div
+            ref={scrollRef}
+            className="overflow-y-auto"
+            style={{ height: TABLE_HEIGHT }}
+            onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+          >
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 z-10 bg-background text-muted-foreground">
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} className="text-left font-medium">
+                      <button type="button" className="py-1 hover:text-foreground" onClick={() => handleSort(column.key)}>
+                        {column.title}
+                        {(column.key === "mean" || column.key === "peakToPeak") && unit && ` (${unit})`}
+                        {sort.key === column.key && (sort.descending ? " ▼" : " ▲")}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <tr style={{ height: firstRow * ROW_HEIGHT }} />
+                {rows.slice(firstRow, lastRow).map((row) => {
+                  const selected = selectedSegmentIndices.includes(row.index)
+                  const inSchema = labelSchema.some((definition) => definition.name === row.segment.label)
+                  return (
+                    <tr
+                      key={`${row.index}-${row.segment.start}`}
+                      className={`cursor-pointer ${selected ? "bg-muted" : "hover:bg-muted/60"}`}
+                      style={{ height: ROW_HEIGHT }}
+                      onClick={() => onSelectSegment(row.index)}
+                    >
+                      <td className="font-mono tabular-nums">{row.index + 1}</td>
+                      {/* Editing a cell should not also select the row; clicks in the portaled menu bubble here too */}
+                      <td onClick={(e) => e.stopPropagation()}>
+                        <Select value={row.segment.label} onValueChange={(label) => onEditLabel(row.index, label)}>
+                          <SelectTrigger size="sm" className="h-7" aria-label={`Label of segment ${row.index + 1}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {!inSchema && (
+                              <SelectItem value={row.segment.label}>
+                                <span className="italic">{row.segment.label}</span>
+                              </SelectItem>
+                            )}
+                            {labelSchema.map((definition) => (
+                              <SelectItem key={definition.name} value={definition.name}>
+                                <div className="flex items-center gap-2">
+                                  <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: definition.color }} />
+                                  {definition.name}
+                                </div>
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td onClick={(e) => e.stopPropagation()}>
+                        <TimeCell value={row.segment.start} onCommit={(start) => editStart(row, start)} />
+                      </td>
+                      <td onClick={(e) => e.stopPropagation()}>
+                        <TimeCell value={row.segment.end} onCommit={(end) => editEnd(row, end)} />
+                      </td>
+                      <td className="font-mono tabular-nums">{row.duration.toFixed(3)}</td>
+                      <td className="font-mono tabular-nums">{formatStat(row.stats.mean)}</td>
+                      <td className="font-mono tabular-nums">{formatStat(row.stats.peakToPeak)}</td>
+                    </tr>
+                  )
+                })}
+                <tr style={{ height: (rows.length - lastRow) * ROW_HEIGHT }} />
+              </tbody>
+            </table>
+            {rows.length === 0 && <p className="pt-2 text-xs text-muted-foreground">No segments match the filter.</p>}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { SignalExportFormat } from "../types"
+
+const FORMAT_LABELS: Record<SignalExportFormat, string> = {
+  opensignals: "OpenSignals .txt",
+  edf: "EDF+ with labels",
+  bdf: "BDF+ with labels",
+  "converted-csv": "Converted CSV",
+}
+
+interface SignalExportProps {
+  format: SignalExportFormat
+  disabled: boolean
+  onFormatChange: (format: SignalExportFormat) => void
+  onExport: () => void
+}
+
+export function SignalExport({ format, disabled, onFormatChange, onExport }: SignalExportProps) {
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={format} onValueChange={(value) => onFormatChange(value as SignalExportFormat)}>
+        <SelectTrigger size="sm" aria-label="Signal export format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(FORMAT_LABELS) as SignalExportFormat[]).map((option) => (
+            <SelectItem key={option} value={option}>
+              {FORMAT_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={onExport} disabled={disabled}>
+        Export Signal
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import type { SyncTrack } from "../types"
+import { getHighIntervals } from "../syncMarkers"
+import { CHART_MARGIN, PLOT_LEFT, SYNC_MARKER_COLOR, SYNC_TRACK_ROW_HEIGHT } from "./chartLayout"
+
+interface SyncEventTrackProps {
+  tracks: SyncTrack[]
+  currentDomain: [number, number]
+}
+
+// Drawn in a fixed-width coordinate space stretched to the plot width
+const TRACK_WIDTH = 1000
+
+export function SyncEventTrack({ tracks, currentDomain }: SyncEventTrackProps) {
+  if (tracks.length === 0) return null
+
+  const domainWidth = currentDomain[1] - currentDomain[0] || 1
+  const toX = (time: number) => ((time - currentDomain[0]) / domainWidth) * TRACK_WIDTH
+
+  return (
+    <div className="space-y-px">
+      {tracks.map((track) => (
+        <div key={track.key} className="flex items-center" style={{ height: SYNC_TRACK_ROW_HEIGHT }}>
+          <span
+            className="shrink-0 pr-1 text-right text-[10px] text-muted-foreground"
+            style={{ width: PLOT_LEFT }}
+            title={`${track.column} (${track.deviceId}, ${track.direction})`}
+          >
+            {track.column}
+          </span>
+          <svg
+            className="h-full flex-1 rounded-sm bg-muted/40"
+            viewBox={`0 0 ${TRACK_WIDTH} ${SYNC_TRACK_ROW_HEIGHT}`}
+            preserveAspectRatio="none"
+          >
+            {getHighIntervals(track, currentDomain).map(([start, end]) => (
+              <rect
+                key={start}
+                x={toX(start)}
+                y={3}
+                width={Math.max(toX(end) - toX(start), 0.5)}
+                height={SYNC_TRACK_ROW_HEIGHT - 6}
+                fill={SYNC_MARKER_COLOR}
+                fillOpacity={0.6}
+              />
+            ))}
+          </svg>
+          <span className="shrink-0" style={{ width: CHART_MARGIN.right }} />
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { SyncMarker, SyncTrack } from "../types"
+
+// Long pulse trains would make the table unusable, and the chart shows them all anyway
+const MAX_LISTED_MARKERS = 500
+
+interface SyncMarkersProps {
+  tracks: SyncTrack[]
+  shownTrackKeys: string[]
+  onToggleTrack: (key: string) => void
+  onJumpToMarker: (marker: SyncMarker) => void
+}
+
+function countRisingEdges(track: SyncTrack): number {
+  return track.markers.filter((marker) => marker.edge === "rising").length
+}
+
+export function SyncMarkers({ tracks, shownTrackKeys, onToggleTrack, onJumpToMarker }: SyncMarkersProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [listedKey, setListedKey] = useState<string | null>(null)
+
+  if (tracks.length === 0) return null
+
+  const pulsingTracks = tracks.filter((track) => track.markers.length > 0)
+  const listedTrack =
+    tracks.find((track) => track.key === listedKey) ??
+    tracks.find((track) => shownTrackKeys.includes(track.key)) ??
+    pulsingTracks[0] ??
+    tracks[0]
+  const risingMarkers = listedTrack.markers.filter((marker) => marker.edge === "rising")
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3 bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <h3 className="text-sm font-medium">Sync Markers</h3>
+          <p className="text-xs text-muted-foreground">
+            {pulsingTracks.length === 0
+              ? `No level changes on the ${tracks.length} digital IO channel${tracks.length === 1 ? "" : "s"}`
+              : pulsingTracks.map((track) => `${countRisingEdges(track)} pulses on ${track.column}`).join(", ")}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setExpanded(!expanded)}>
+          {expanded ? "Hide" : "Show"} Markers
+        </Button>
+      </div>
+      {expanded && (
+        <>
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                <th className="text-left font-medium">Channel</th>
+                <th className="text-left font-medium">Device</th>
+                <th className="text-left font-medium">Direction</th>
+                <th className="text-left font-medium">Rising</th>
+                <th className="text-left font-medium">Falling</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {tracks.map((track) => {
+                const rising = countRisingEdges(track)
+                const shown = shownTrackKeys.includes(track.key)
+                return (
+                  <tr key={track.key}>
+                    <td className="font-medium">{track.column}</td>
+                    <td className="font-mono">{track.deviceId}</td>
+                    <td>{track.direction}</td>
+                    <td className="font-mono tabular-nums">{rising}</td>
+                    <td className="font-mono tabular-nums">{track.markers.length - rising}</td>
+                    <td className="text-right">
+                      <Button variant="ghost" size="sm" className="h-6 px-2" onClick={() => onToggleTrack(track.key)}>
+                        {shown ? "Hide" : "Show"} on Chart
+                      </Button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium">Rising edges on</span>
+            <Select value={listedTrack.key} onValueChange={setListedKey}>
+              <SelectTrigger size="sm" aria-label="Marker channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tracks.map((track) => (
+                  <SelectItem key={track.key} value={track.key}>
+                    {track.column} ({track.deviceId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {risingMarkers.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No rising edges on {listedTrack.column}.</p>
+          ) : (
+            <div className="max-h-48 overflow-y-auto">
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-medium">#</th>
+                    <th className="text-left font-medium">Time</th>
+                    <th className="text-left font-medium">Sample</th>
+                    <th className="text-left font-medium">Since previous</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono tabular-nums">
+                  {risingMarkers.slice(0, MAX_LISTED_MARKERS).map((marker, index) => (
+                    <tr
+                      key={marker.sampleIndex}
+                      className="cursor-pointer hover:bg-muted"
+                      onClick={() => onJumpToMarker(marker)}
+                    >
+                      <td>{index + 1}</td>
+                      <td>{marker.time.toFixed(3)}s</td>
+                      <td>{marker.sampleIndex.toLocaleString()}</td>
+                      <td>{index > 0 ? `${(marker.time - risingMarkers[index - 1].time).toFixed(3)}s` : "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {risingMarkers.length > MAX_LISTED_MARKERS && (
+                <p className="pt-1 text-xs text-muted-foreground">
+                  Showing the first {MAX_LISTED_MARKERS} of {risingMarkers.length.toLocaleString()} edges.
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
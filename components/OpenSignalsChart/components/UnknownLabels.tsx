@@ -0,0 +1,98 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LabelDefinition } from "../types"
+import type { UnknownLabel } from "../labelSchema"
+
+interface UnknownLabelsProps {
+  unknownLabels: UnknownLabel[]
+  schema: LabelDefinition[]
+  onMapLabel: (from: string, to: string) => void
+  onAddToSchema: (label: string) => void
+}
+
+export function UnknownLabels({ unknownLabels, schema, onMapLabel, onAddToSchema }: UnknownLabelsProps) {
+  // Chosen targets by label; unset ones fall back to the suggestion
+  const [targets, setTargets] = useState<Record<string, string>>({})
+
+  if (unknownLabels.length === 0) return null
+
+  const totalSegments = unknownLabels.reduce((sum, unknown) => sum + unknown.count, 0)
+
+  return (
+    <div className="rounded-md border border-amber-500/50 bg-amber-500/10 p-3 space-y-2">
+      <p className="text-sm">
+        <span className="font-medium">
+          {unknownLabels.length} label{unknownLabels.length === 1 ? "" : "s"} outside the schema
+        </span>
+        <span className="text-muted-foreground">
+          {" "}
+          ({totalSegments} segment{totalSegments === 1 ? "" : "s"}). Map each to a schema label or add it to the
+          schema.
+        </span>
+      </p>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-medium">Label</th>
+            <th className="text-left font-medium">Segments</th>
+            <th className="text-left font-medium">Map to</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {unknownLabels.map((unknown) => {
+            const chosen = targets[unknown.label]
+            const target = chosen && schema.some((definition) => definition.name === chosen) ? chosen : unknown.suggestion ?? ""
+            return (
+              <tr key={unknown.label}>
+                <td className="font-mono">&quot;{unknown.label}&quot;</td>
+                <td className="font-mono tabular-nums">{unknown.count}</td>
+                <td>
+                  <Select
+                    value={target}
+                    onValueChange={(value) => setTargets((prev) => ({ ...prev, [unknown.label]: value }))}
+                  >
+                    <SelectTrigger size="sm" aria-label={`Schema label for ${unknown.label}`}>
+                      <SelectValue placeholder="Choose a label" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {schema.map((definition) => (
+                        <SelectItem key={definition.name} value={definition.name}>
+                          <div className="flex items-center gap-2">
+                            <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: definition.color }} />
+                            {definition.name}
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+                <td className="space-x-1 text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7"
+                    onClick={() => onMapLabel(unknown.label, target)}
+                    disabled={!target}
+                  >
+                    Map
+                  </Button>
+                  <Button variant="ghost" size="sm" className="h-7" onClick={() => onAddToSchema(unknown.label)}>
+                    Add to Schema
+                  </Button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest"
+import { CHART_MARGIN, Y_AXIS_WIDTH, getClampedTimeAtOffsetX, getPlotArea, getTimeAtOffsetX } from "./chartLayout"
+import { getSegmentIndicesInRange } from "../utils"
+
+describe("getTimeAtOffsetX", () => {
+  const containerWidth = 1000
+  const domain: [number, number] = [10, 20]
+  const plotLeft = CHART_MARGIN.left + Y_AXIS_WIDTH
+  const plotWidth = containerWidth - plotLeft - CHART_MARGIN.right
+
+  it("starts the plot after the margin and the Y axis", () => {
+    expect(getPlotArea(containerWidth)).toEqual({ left: plotLeft, width: plotWidth })
+  })
+
+  it("maps a click in the plot to the time drawn under it", () => {
+    const rectLeft = 40
+    const clientX = rectLeft + plotLeft + plotWidth / 4
+    expect(getTimeAtOffsetX(clientX - rectLeft, containerWidth, domain)).toBeCloseTo(12.5)
+    expect(getTimeAtOffsetX(plotLeft, containerWidth, domain)).toBe(10)
+    expect(getTimeAtOffsetX(plotLeft + plotWidth, containerWidth, domain)).toBe(20)
+  })
+
+  it("ignores clicks on the axis and in the right margin", () => {
+    expect(getTimeAtOffsetX(CHART_MARGIN.left + 10, containerWidth, domain)).toBeNull()
+    expect(getTimeAtOffsetX(containerWidth - 5, containerWidth, domain)).toBeNull()
+  })
+})
+
+describe("getClampedTimeAtOffsetX", () => {
+  const domain: [number, number] = [0, 8]
+
+  it("runs a drag past either side of the plot to that edge", () => {
+    expect(getClampedTimeAtOffsetX(0, 1000, domain)).toBe(0)
+    expect(getClampedTimeAtOffsetX(2000, 1000, domain)).toBe(8)
+  })
+
+  it("selects exactly the segments drawn under a box", () => {
+    const plot = getPlotArea(1000)
+    const segments = [
+      { start: 0, end: 1, label: "stare" },
+      { start: 1, end: 2, label: "blink" },
+      { start: 2, end: 4, label: "stare" },
+      { start: 4, end: 8, label: "left" },
+    ]
+    // A box from just inside the second segment to just inside the third, in pixels
+    const fromX = plot.left + (1.1 / 8) * plot.width
+    const toX = plot.left + (2.1 / 8) * plot.width
+    const start = getClampedTimeAtOffsetX(fromX, 1000, domain)
+    const end = getClampedTimeAtOffsetX(toX, 1000, domain)
+    expect(getSegmentIndicesInRange(segments, start, end)).toEqual([1, 2])
+  })
+})
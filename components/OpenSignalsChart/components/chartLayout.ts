@@ -0,0 +1,62 @@
+import type { ChannelKey, ChannelLayout } from "../types"
+
+export const CHART_HEIGHT = 600
+export const CHART_MARGIN = { top: 5, right: 30, left: 20, bottom: 80 }
+export const OVERVIEW_HEIGHT = 40
+// Matches the default YAxis width so the overview brush lines up with the plots
+export const Y_AXIS_WIDTH = 60
+// Every lane, the overview brush and the event track leave the margin plus the Y axis on the left,
+// so the same time lands on the same pixel in both renderers
+export const PLOT_LEFT = CHART_MARGIN.left + Y_AXIS_WIDTH
+export const GAP_COLOR = "hsl(0 72% 51%)"
+export const CROP_KEEP_COLOR = "hsl(142 71% 45%)"
+export const RANGE_SELECTION_COLOR = "hsl(217 91% 60%)"
+export const PLAYHEAD_COLOR = "hsl(0 0% 15%)"
+export const SYNC_MARKER_COLOR = "hsl(262 83% 58%)"
+export const SYNC_TRACK_ROW_HEIGHT = 16
+// Past this many visible markers the lines would bury the trace, so only the event track shows them
+export const MAX_VISIBLE_SYNC_MARKERS = 200
+
+// Horizontal extent of the plot inside a chart container
+export function getPlotArea(containerWidth: number): { left: number; width: number } {
+  return { left: PLOT_LEFT, width: Math.max(1, containerWidth - PLOT_LEFT - CHART_MARGIN.right) }
+}
+
+// Time under a pixel `offsetX` from the container's left edge, or null outside the plot
+export function getTimeAtOffsetX(offsetX: number, containerWidth: number, domain: [number, number]): number | null {
+  const plot = getPlotArea(containerWidth)
+  const plotX = offsetX - plot.left
+  if (plotX < 0 || plotX > plot.width) return null
+  return domain[0] + (plotX / plot.width) * (domain[1] - domain[0])
+}
+
+// Like getTimeAtOffsetX, but a pixel past either side of the plot maps to that edge
+export function getClampedTimeAtOffsetX(offsetX: number, containerWidth: number, domain: [number, number]): number {
+  const plot = getPlotArea(containerWidth)
+  return getTimeAtOffsetX(Math.min(plot.left + plot.width, Math.max(plot.left, offsetX)), containerWidth, domain) ?? domain[0]
+}
+
+export function getPaddedDomain(range: [number, number] | undefined): [number, number] | null {
+  if (!range) return null
+  // Physical units can span well under 1, so only fall back to a fixed pad for flat signals
+  const span = range[1] - range[0]
+  const padding = span > 0 ? span * 0.05 : 1
+  return [range[0] - padding, range[1] + padding]
+}
+
+export function getDomainTicks(domain: [number, number]): number[] {
+  return [
+    Number(domain[0].toFixed(2)),
+    Number(((domain[0] + domain[1]) / 2).toFixed(2)),
+    Number(domain[1].toFixed(2)),
+  ]
+}
+
+// Stacked layout gives every channel its own lane; overlay draws them all in one
+export function getChartLanes(visibleChannels: ChannelKey[], layout: ChannelLayout): ChannelKey[][] {
+  return layout === "stacked" ? visibleChannels.map((channel) => [channel]) : [visibleChannels]
+}
+
+export function getLanePlotHeight(laneCount: number): number {
+  return (CHART_HEIGHT - CHART_MARGIN.bottom - CHART_MARGIN.top * laneCount) / laneCount
+}
@@ -1,42 +1,46 @@
-import type { ChartConfig } from "@/components/ui/chart"
+import type { LabelDefinition } from "./types"
 
-export const LABEL_COLORS: Record<string, string> = {
-  stare: "hsl(221 83% 65%)",
-  left: "hsl(0 84% 60%)",
-  up: "hsl(142 71% 45%)",
-  down: "hsl(25 95% 53%)",
-  right: "hsl(291 64% 42%)",
-  unknown: "hsl(220 13% 69%)",
-  blink: "hsl(192 85% 44%)",
-}
+// Labels of the original keypress logger; sessions start from this until the project edits it
+export const DEFAULT_LABEL_SCHEMA: LabelDefinition[] = [
+  { name: "stare", color: "hsl(221 83% 65%)", hotkey: "s", description: "Fixating the center target" },
+  { name: "left", color: "hsl(0 84% 60%)", hotkey: "a", description: "Gaze to the left target" },
+  { name: "up", color: "hsl(142 71% 45%)", hotkey: "w", description: "Gaze to the upper target" },
+  { name: "down", color: "hsl(25 95% 53%)", hotkey: "x", description: "Gaze to the lower target" },
+  { name: "right", color: "hsl(291 64% 42%)", hotkey: "d", description: "Gaze to the right target" },
+  { name: "unknown", color: "hsl(220 13% 69%)", hotkey: "u", description: "Not attributable to a target" },
+  { name: "blink", color: "hsl(192 85% 44%)", hotkey: "b", description: "Eye blink" },
+]
+
+// Colors handed to labels added to the schema, in order
+export const LABEL_PALETTE = [
+  "hsl(48 96% 53%)",
+  "hsl(330 81% 60%)",
+  "hsl(173 80% 40%)",
+  "hsl(262 83% 58%)",
+  "hsl(84 81% 44%)",
+  "hsl(12 76% 61%)",
+]
 
 export const DEFAULT_LABEL_COLOR = "hsl(217 22% 67%)"
+
+// Shortcuts for the selected segment; label hotkeys may not reuse them
+export const SPLIT_SEGMENT_KEY = "/"
+export const MERGE_SEGMENT_KEY = "m"
+// Shortest segment a split or an edge drag may leave behind
+export const MIN_SEGMENT_DURATION = 0.01
 export const SEGMENT_MATCH_EPSILON = 0.002
 
-export const chartConfig = {
-  A1: {
-    label: "A1",
-    color: "var(--chart-1)",
-  },
-  A2: {
-    label: "A2",
-    color: "var(--chart-2)",
-  },
-  A3: {
-    label: "A3",
-    color: "var(--chart-3)",
-  },
-  A4: {
-    label: "A4",
-    color: "var(--chart-4)",
-  },
-  A5: {
-    label: "A5",
-    color: "var(--chart-5)",
-  },
-  A6: {
-    label: "A6",
-    color: "var(--chart-6)",
-  },
-} satisfies ChartConfig
+export const CHANNEL_COLORS = [
+  "var(--chart-1)",
+  "var(--chart-2)",
+  "var(--chart-3)",
+  "var(--chart-4)",
+  "var(--chart-5)",
+  "var(--chart-6)",
+]
+
+export const DEFAULT_VISIBLE_CHANNEL = "A4"
 
+// Min/max buckets for the whole-recording overview and for the zoomed viewport
+export const OVERVIEW_BUCKET_COUNT = 5000
+export const VIEWPORT_BUCKET_COUNT = 2000
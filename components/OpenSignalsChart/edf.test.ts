@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { parseEdf, serializeEdf } from "./edf"
+import { createSignalStore } from "./signalStore"
+import type { ChannelInfo } from "./types"
+
+const channel: ChannelInfo = {
+  key: "A1",
+  label: "A1",
+  deviceId: null,
+  columnName: "A1",
+  columnIndex: 5,
+  channel: 1,
+  sensor: "EOG",
+  resolution: 10,
+}
+
+describe("EDF round trip", () => {
+  it("keeps the sample count when the recording ends mid-record", () => {
+    const values = Float32Array.from({ length: 2550 }, (_, i) => i % 1024)
+    const store = createSignalStore({ length: values.length, channels: { A1: values } }, 1000)
+
+    for (const format of ["edf", "bdf"] as const) {
+      const output = serializeEdf({
+        format,
+        store,
+        channels: [channel],
+        segments: [{ start: 0.5, end: 1.5, label: "blink" }],
+        startTimestampMs: new Date(2024, 0, 1, 12).getTime(),
+        deviceId: "00:07:80:4D:2E:76",
+      })
+      const parsed = parseEdf(output.buffer)
+
+      expect(parsed.columns.length).toBe(2550)
+      expect(parsed.columns.channels.A1).toHaveLength(2550)
+      expect(parsed.columns.channels.A1[2549]).toBe(values[2549])
+      expect(parsed.header.deviceId).toBe("00:07:80:4D:2E:76")
+      expect(parsed.annotations).toEqual([{ start: 0.5, end: 1.5, label: "blink" }])
+    }
+  })
+})
@@ -0,0 +1,415 @@
+import type { ChannelInfo, LabelSegment, SignalStore } from "./types"
+import { buildChannelMap, type ParsedOpenSignalsFile } from "./opensignals"
+import { getSampleValue } from "./signalStore"
+import { SENSOR_TYPES, getTransferFunction, toPhysical } from "./units"
+
+export type EdfFormat = "edf" | "bdf"
+
+interface EdfFormatSpec {
+  bytesPerSample: number
+  digitalMin: number
+  digitalMax: number
+  annotationLabel: string
+  reserved: string
+}
+
+const FORMAT_SPECS: Record<EdfFormat, EdfFormatSpec> = {
+  edf: { bytesPerSample: 2, digitalMin: -32768, digitalMax: 32767, annotationLabel: "EDF Annotations", reserved: "EDF+C" },
+  bdf: { bytesPerSample: 3, digitalMin: -8388608, digitalMax: 8388607, annotationLabel: "BDF Annotations", reserved: "BDF+C" },
+}
+
+// Resolutions of the nSeq and digital IO columns that precede the analog ones
+const DIGITAL_COLUMN_RESOLUTIONS = [4, 1, 1, 1, 1]
+const MONTHS = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"]
+const TAL_SEPARATOR = 0x14
+const TAL_DURATION = 0x15
+
+const padNumber = (value: number) => value.toString().padStart(2, "0")
+
+function asciiField(value: string, length: number): string {
+  // EDF headers are printable ASCII only
+  const ascii = value.replace(/µ/g, "u").replace(/[^\x20-\x7e]/g, "_")
+  return ascii.slice(0, length).padEnd(length, " ")
+}
+
+function numberField(value: number, length = 8): string {
+  let text = String(value)
+  for (let precision = 8; text.length > length && precision > 1; precision--) {
+    text = String(Number(value.toPrecision(precision)))
+  }
+  return asciiField(text, length)
+}
+
+function formatOnset(seconds: number): string {
+  const text = String(Number(seconds.toFixed(6)))
+  return seconds < 0 ? text : `+${text}`
+}
+
+interface SignalMapping {
+  channel: ChannelInfo
+  physicalMin: number
+  physicalMax: number
+  digitalMin: number
+  digitalMax: number
+  toDigital: (value: number) => number
+}
+
+function isAdcColumn(values: Float32Array, maxAdc: number): boolean {
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i]
+    if (Number.isNaN(value)) continue
+    if (value < 0 || value > maxAdc || !Number.isInteger(value)) return false
+  }
+  return true
+}
+
+function mapChannel(store: SignalStore, channel: ChannelInfo, spec: EdfFormatSpec): SignalMapping {
+  const values = store.channels[channel.key] ?? new Float32Array(0)
+  const maxAdc = 2 ** channel.resolution - 1
+
+  // Integer ADC samples are stored as-is, with physical limits from the sensor transfer function
+  if (isAdcColumn(values, maxAdc) && maxAdc <= spec.digitalMax - spec.digitalMin) {
+    const offset = maxAdc > spec.digitalMax ? spec.digitalMin : 0
+    return {
+      channel,
+      physicalMin: toPhysical(0, channel),
+      physicalMax: toPhysical(maxAdc, channel),
+      digitalMin: offset,
+      digitalMax: offset + maxAdc,
+      toDigital: (value) => value + offset,
+    }
+  }
+
+  let min = Number.POSITIVE_INFINITY
+  let max = Number.NEGATIVE_INFINITY
+  for (let i = 0; i < values.length; i++) {
+    const value = toPhysical(values[i], channel)
+    if (Number.isNaN(value)) continue
+    min = Math.min(min, value)
+    max = Math.max(max, value)
+  }
+  if (!Number.isFinite(min)) {
+    min = 0
+    max = 1
+  } else if (max === min) {
+    max = min + 1
+  }
+
+  const scale = (spec.digitalMax - spec.digitalMin) / (max - min)
+  return {
+    channel,
+    physicalMin: min,
+    physicalMax: max,
+    digitalMin: spec.digitalMin,
+    digitalMax: spec.digitalMax,
+    toDigital: (value) => Math.round((toPhysical(value, channel) - min) * scale + spec.digitalMin),
+  }
+}
+
+function writeSample(view: DataView, offset: number, value: number, bytesPerSample: number) {
+  if (bytesPerSample === 2) {
+    view.setInt16(offset, value, true)
+  } else {
+    view.setUint8(offset, value & 0xff)
+    view.setUint8(offset + 1, (value >> 8) & 0xff)
+    view.setUint8(offset + 2, (value >> 16) & 0xff)
+  }
+}
+
+export function serializeEdf({
+  format,
+  store,
+  channels,
+  segments,
+  startTimestampMs,
+  deviceId,
+}: {
+  format: EdfFormat
+  store: SignalStore
+  channels: ChannelInfo[]
+  segments: LabelSegment[]
+  startTimestampMs: number
+  deviceId: string | null
+}): Uint8Array<ArrayBuffer> {
+  const spec = FORMAT_SPECS[format]
+  const samplesPerRecord = Math.round(store.samplingRate)
+  if (samplesPerRecord !== store.samplingRate || samplesPerRecord <= 0) {
+    throw new Error("EDF export needs a whole-number sampling rate")
+  }
+
+  // EDF start times have one-second resolution; the remainder goes into the record timekeeping
+  const fileStartMs = startTimestampMs + store.startTime * 1000
+  const start = new Date(Math.floor(fileStartMs / 1000) * 1000)
+  const startFraction = (fileStartMs - start.getTime()) / 1000
+  const recordCount = Math.max(1, Math.ceil(store.length / samplesPerRecord))
+  const mappings = channels.map((channel) => mapChannel(store, channel, spec))
+  const encoder = new TextEncoder()
+
+  // Each annotation goes into the record its onset falls in, after that record's timekeeping entry
+  const recordAnnotations = Array.from({ length: recordCount }, (_, record) => [
+    encoder.encode(`${formatOnset(startFraction + record)}\x14\x14\x00`),
+  ])
+  for (const segment of segments) {
+    const onset = startFraction + segment.start - store.startTime
+    const record = Math.min(recordCount - 1, Math.max(0, Math.floor(onset - startFraction)))
+    const duration = String(Number((segment.end - segment.start).toFixed(6)))
+    recordAnnotations[record].push(encoder.encode(`${formatOnset(onset)}\x15${duration}\x14${segment.label}\x14\x00`))
+  }
+  const annotationBytes = recordAnnotations.map((parts) => parts.reduce((sum, part) => sum + part.length, 0))
+  const annotationSamples = Math.ceil(Math.max(...annotationBytes) / spec.bytesPerSample)
+
+  const signalCount = channels.length + 1
+  const headerBytes = 256 * (signalCount + 1)
+  const recordBytes = (channels.length * samplesPerRecord + annotationSamples) * spec.bytesPerSample
+  const output = new Uint8Array(headerBytes + recordCount * recordBytes)
+  const view = new DataView(output.buffer)
+
+  const signalFields = (pick: (mapping: SignalMapping | null) => string) =>
+    [...mappings, null].map(pick).join("")
+  const startDate = `${padNumber(start.getDate())}-${MONTHS[start.getMonth()]}-${start.getFullYear()}`
+  // The last record is padded to a whole second, so the true sample count rides along as an extra subfield.
+  // The equipment name gives way if the field runs out of room, never the count
+  const samplesSubfield = ` Samples=${store.length}`
+  const recordingPrefix = `Startdate ${startDate} X X `
+  const equipment = (deviceId || "X").replace(/\s+/g, "_").slice(0, 80 - recordingPrefix.length - samplesSubfield.length)
+
+  const header =
+    (format === "bdf" ? "\xffBIOSEMI" : asciiField("0", 8)) +
+    asciiField("X X X X", 80) +
+    asciiField(`${recordingPrefix}${equipment}${samplesSubfield}`, 80) +
+    asciiField(`${padNumber(start.getDate())}.${padNumber(start.getMonth() + 1)}.${padNumber(start.getFullYear() % 100)}`, 8) +
+    asciiField(`${padNumber(start.getHours())}.${padNumber(start.getMinutes())}.${padNumber(start.getSeconds())}`, 8) +
+    asciiField(String(headerBytes), 8) +
+    asciiField(spec.reserved, 44) +
+    asciiField(String(recordCount), 8) +
+    asciiField("1", 8) +
+    asciiField(String(signalCount), 4) +
+    signalFields((m) => asciiField(m ? m.channel.key : spec.annotationLabel, 16)) +
+    signalFields((m) => asciiField(m ? m.channel.sensor : "", 80)) +
+    signalFields((m) => asciiField(m ? getTransferFunction(m.channel.sensor).unit : "", 8)) +
+    signalFields((m) => numberField(m ? m.physicalMin : -1)) +
+    signalFields((m) => numberField(m ? m.physicalMax : 1)) +
+    signalFields((m) => numberField(m ? m.digitalMin : spec.digitalMin)) +
+    signalFields((m) => numberField(m ? m.digitalMax : spec.digitalMax)) +
+    signalFields(() => asciiField("", 80)) +
+    signalFields((m) => asciiField(String(m ? samplesPerRecord : annotationSamples), 8)) +
+    signalFields(() => asciiField("", 32))
+
+  for (let i = 0; i < header.length; i++) {
+    output[i] = header.charCodeAt(i) & 0xff
+  }
+
+  for (let record = 0; record < recordCount; record++) {
+    let offset = headerBytes + record * recordBytes
+    for (const mapping of mappings) {
+      // Dropped samples and the padding of the last record repeat the last recorded value
+      let lastValue = mapping.toDigital(getSampleValue(store, mapping.channel.key, 0))
+      if (Number.isNaN(lastValue)) lastValue = mapping.digitalMin
+      for (let s = 0; s < samplesPerRecord; s++) {
+        const index = record * samplesPerRecord + s
+        const value = index < store.length ? getSampleValue(store, mapping.channel.key, index) : NaN
+        if (!Number.isNaN(value)) lastValue = mapping.toDigital(value)
+        writeSample(view, offset, lastValue, spec.bytesPerSample)
+        offset += spec.bytesPerSample
+      }
+    }
+    for (const part of recordAnnotations[record]) {
+      output.set(part, offset)
+      offset += part.length
+    }
+  }
+
+  return output
+}
+
+function readAscii(bytes: Uint8Array, start: number, length: number): string {
+  let text = ""
+  for (let i = start; i < start + length; i++) {
+    text += String.fromCharCode(bytes[i])
+  }
+  return text.trim()
+}
+
+function parseStartTimestamp(date: string, time: string, recording: string): number | null {
+  const [day, month, shortYear] = date.split(".").map(Number)
+  const [hours, minutes, seconds] = time.split(".").map(Number)
+  // EDF+ keeps the four-digit year in the recording field; plain EDF uses the 1985 clipping date
+  const fullYear = Number(recording.match(/^Startdate \d{2}-[A-Z]{3}-(\d{4})/)?.[1])
+  const year = Number.isFinite(fullYear) ? fullYear : shortYear >= 85 ? 1900 + shortYear : 2000 + shortYear
+  const timestamp = new Date(year, month - 1, day, hours, minutes, seconds).getTime()
+  return Number.isNaN(timestamp) ? null : timestamp
+}
+
+function parseTals(bytes: Uint8Array): { onset: number; duration: number | null; labels: string[] }[] {
+  const decoder = new TextDecoder()
+  const tals: { onset: number; duration: number | null; labels: string[] }[] = []
+  let start = 0
+
+  for (let i = 0; i <= bytes.length; i++) {
+    if (i < bytes.length && bytes[i] !== 0) continue
+    if (i > start) {
+      const fields = decoder.decode(bytes.subarray(start, i)).split(String.fromCharCode(TAL_SEPARATOR))
+      const [onsetText, durationText] = fields[0].split(String.fromCharCode(TAL_DURATION))
+      const onset = Number(onsetText)
+      if (Number.isFinite(onset)) {
+        tals.push({
+          onset,
+          duration: durationText ? Number(durationText) : null,
+          labels: fields.slice(1).filter((label) => label.length > 0),
+        })
+      }
+    }
+    start = i + 1
+  }
+
+  return tals
+}
+
+export function parseEdf(buffer: ArrayBuffer): ParsedOpenSignalsFile {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  if (bytes.length < 256) {
+    throw new Error("File is too short to be EDF or BDF")
+  }
+
+  const isBdf = bytes[0] === 0xff && readAscii(bytes, 1, 7) === "BIOSEMI"
+  const spec = FORMAT_SPECS[isBdf ? "bdf" : "edf"]
+  const reserved = readAscii(bytes, 192, 44)
+  if (reserved.startsWith("EDF+D") || reserved.startsWith("BDF+D")) {
+    throw new Error("Discontinuous EDF+/BDF+ recordings are not supported")
+  }
+
+  const recording = readAscii(bytes, 88, 80)
+  const headerBytes = Number(readAscii(bytes, 184, 8))
+  const recordDuration = Number(readAscii(bytes, 244, 8))
+  const signalCount = Number(readAscii(bytes, 252, 4))
+  if (!signalCount || !recordDuration) {
+    throw new Error("Invalid EDF header")
+  }
+
+  let fieldOffset = 256
+  const readSignalFields = (length: number) => {
+    const values = Array.from({ length: signalCount }, (_, idx) => readAscii(bytes, fieldOffset + idx * length, length))
+    fieldOffset += signalCount * length
+    return values
+  }
+  const labels = readSignalFields(16)
+  const transducers = readSignalFields(80)
+  readSignalFields(8) // physical dimension
+  const physicalMins = readSignalFields(8).map(Number)
+  const physicalMaxs = readSignalFields(8).map(Number)
+  const digitalMins = readSignalFields(8).map(Number)
+  const digitalMaxs = readSignalFields(8).map(Number)
+  readSignalFields(80) // prefiltering
+  const samplesPerRecord = readSignalFields(8).map(Number)
+
+  const recordBytes = samplesPerRecord.reduce((sum, count) => sum + count, 0) * spec.bytesPerSample
+  const storedRecords = Number(readAscii(bytes, 236, 8))
+  const availableRecords = Math.floor((bytes.length - headerBytes) / recordBytes)
+  const recordCount = storedRecords > 0 ? Math.min(storedRecords, availableRecords) : availableRecords
+
+  const isAnnotation = labels.map((label) => label === spec.annotationLabel)
+  const signalIndexes = labels.map((_, idx) => idx).filter((idx) => !isAnnotation[idx])
+  if (signalIndexes.length === 0) {
+    throw new Error("EDF file has no signals")
+  }
+  const rate = samplesPerRecord[signalIndexes[0]]
+  if (signalIndexes.some((idx) => samplesPerRecord[idx] !== rate)) {
+    throw new Error("EDF signals with different sampling rates are not supported")
+  }
+
+  // Our own exports store ADC counts with the sensor name as transducer; anything else is loaded as physical values
+  const adcResolutions = signalIndexes.map((idx) => {
+    const sensor = transducers[idx].toUpperCase()
+    const resolution = Math.log2(digitalMaxs[idx] - digitalMins[idx] + 1)
+    return SENSOR_TYPES.includes(sensor) && Number.isInteger(resolution) ? resolution : null
+  })
+
+  const { channels } = buildChannelMap(
+    {
+      channels: signalIndexes.map((_, idx) => idx + 1),
+      label: signalIndexes.map((idx) => labels[idx]),
+      sensor: signalIndexes.map((idx, position) =>
+        adcResolutions[position] === null ? "RAW" : transducers[idx].toUpperCase()
+      ),
+      resolution: [...DIGITAL_COLUMN_RESOLUTIONS, ...adcResolutions.map((resolution) => resolution ?? 16)],
+    },
+    { deviceId: null, columnOffset: 0, usedKeys: new Set() }
+  )
+
+  // Our own exports record how many samples precede the padding of the last record
+  const storedSamples = Number(recording.match(/\sSamples=(\d+)(\s|$)/)?.[1])
+  const length = Number.isFinite(storedSamples) ? Math.min(storedSamples, recordCount * rate) : recordCount * rate
+  const columns = channels.map(() => new Float32Array(length))
+  const annotations: LabelSegment[] = []
+  let startFraction: number | null = null
+
+  const readSample = (offset: number) => {
+    if (spec.bytesPerSample === 2) return view.getInt16(offset, true)
+    const value = bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16)
+    return value & 0x800000 ? value - 0x1000000 : value
+  }
+
+  for (let record = 0; record < recordCount; record++) {
+    let offset = headerBytes + record * recordBytes
+    for (let idx = 0; idx < signalCount; idx++) {
+      const count = samplesPerRecord[idx]
+      const position = signalIndexes.indexOf(idx)
+
+      if (isAnnotation[idx]) {
+        const tals = parseTals(bytes.subarray(offset, offset + count * spec.bytesPerSample))
+        // The first annotation-less TAL of each record is its timekeeping entry
+        if (record === 0 && tals[0] && tals[0].labels.length === 0) {
+          startFraction = tals[0].onset
+        }
+        for (const tal of tals) {
+          for (const label of tal.labels) {
+            annotations.push({ start: tal.onset, end: tal.onset + (tal.duration ?? 0), label })
+          }
+        }
+      } else {
+        const adcResolution = adcResolutions[position]
+        const digitalMin = digitalMins[idx]
+        const gain = (physicalMaxs[idx] - physicalMins[idx]) / (digitalMaxs[idx] - digitalMins[idx])
+        const target = columns[position]
+        for (let s = 0; s < count && record * rate + s < length; s++) {
+          const digital = readSample(offset + s * spec.bytesPerSample)
+          target[record * rate + s] =
+            adcResolution !== null ? digital - digitalMin : physicalMins[idx] + (digital - digitalMin) * gain
+        }
+      }
+      offset += count * spec.bytesPerSample
+    }
+  }
+
+  const samplingRate = rate / recordDuration
+  const timeShift = startFraction ?? 0
+  const fileStart = parseStartTimestamp(readAscii(bytes, 168, 8), readAscii(bytes, 176, 8), recording)
+  const equipment = recording.split(/\s+/)[4]
+  const deviceId = equipment && equipment !== "X" ? equipment : null
+
+  return {
+    header: {
+      deviceId,
+      samplingRate,
+      startTimestampMs: fileStart === null ? null : fileStart + timeShift * 1000,
+      devices: [],
+      channels: channels.map((channel) => ({ ...channel, deviceId })),
+    },
+    columns: {
+      length,
+      channels: Object.fromEntries(channels.map((channel, idx) => [channel.key, columns[idx]])),
+    },
+    gaps: [],
+    annotations: annotations.map((annotation) => ({
+      ...annotation,
+      start: annotation.start - timeShift,
+      // Instant annotations get one sample so they stay visible and selectable
+      end: Math.max(annotation.end, annotation.start + 1 / samplingRate) - timeShift,
+    })),
+  }
+}
+
+export function isEdfFile(file: File): boolean {
+  return /\.(edf|bdf)$/i.test(file.name)
+}
@@ -1,152 +1,209 @@
 import { useState, useRef } from "react"
-import type { DataPoint, LabelSegment } from "../types"
+import type {
+  ChannelInfo,
+  ChannelRanges,
+  ClockCorrection,
+  DataPoint,
+  LabelDefinition,
+  LabelSegment,
+  OpenSignalsDevice,
+  ParseProgress,
+  SavedSignal,
+  SessionDraft,
+  SessionSourceFiles,
+  SignalGap,
+  SignalStore,
+} from "../types"
 import { parseKeypressLabelSegmentsWithMetadata } from "../utils"
+import { DEFAULT_LABEL_SCHEMA } from "../constants"
+import {
+  EMPTY_SIGNAL_STORE,
+  computeStoreRanges,
+  createSignalStore,
+  getTimeRange,
+  getOverviewPoints,
+} from "../signalStore"
+import { parseSignalFileInWorker } from "../signalParserClient"
+import { hashFile, readProjectArchive } from "../projectArchive"
+
+const NO_CLOCK_CORRECTION: ClockCorrection = { clockOffsetMs: 0, clockDriftPpm: 0 }
 
 export function useChartData() {
   const [data, setData] = useState<DataPoint[]>([])
-  const [rawData, setRawData] = useState<DataPoint[]>([])
+  const [signalStore, setSignalStore] = useState<SignalStore>(EMPTY_SIGNAL_STORE)
+  const [channels, setChannels] = useState<ChannelInfo[]>([])
+  const [signalGaps, setSignalGaps] = useState<SignalGap[]>([])
+  const [fillGaps, setFillGaps] = useState(true)
   const [labelSegments, setLabelSegments] = useState<LabelSegment[]>([])
+  const [labelSchema, setLabelSchema] = useState<LabelDefinition[]>(DEFAULT_LABEL_SCHEMA)
   const [loading, setLoading] = useState(false)
+  const [loadProgress, setLoadProgress] = useState<ParseProgress | null>(null)
+  const loadAbortRef = useRef<AbortController | null>(null)
   const [error, setError] = useState<string | null>(null)
-  const [yRange, setYRange] = useState<[number, number] | null>(null)
+  const [yRanges, setYRanges] = useState<ChannelRanges>({})
   const [signalFile, setSignalFile] = useState<File | null>(null)
   const [keypressFile, setKeypressFile] = useState<File | null>(null)
+  const [sourceFiles, setSourceFiles] = useState<SessionSourceFiles | null>(null)
   const signalInputRef = useRef<HTMLInputElement | null>(null)
   const keypressInputRef = useRef<HTMLInputElement | null>(null)
   
   const [signalStartTimestampMs, setSignalStartTimestampMs] = useState<number | null>(null)
   const [keypressStartTimestampMs, setKeypressStartTimestampMs] = useState<number | null>(null)
   const [keypressSamplingRate, setKeypressSamplingRate] = useState(1000)
+  const [clockCorrection, setClockCorrection] = useState<ClockCorrection>(NO_CLOCK_CORRECTION)
   const [signalSamplingRate, setSignalSamplingRate] = useState(1000)
   const [signalDeviceId, setSignalDeviceId] = useState<string | null>(null)
+  const [signalDevices, setSignalDevices] = useState<OpenSignalsDevice[]>([])
+
+  async function processFiles(signalFile: File, keypressFile: File | null) {
+    loadAbortRef.current?.abort()
+    const abortController = new AbortController()
+    loadAbortRef.current = abortController
 
-  async function processFiles(signalFile: File, keypressFile: File) {
     setLoading(true)
+    setLoadProgress({ bytesRead: 0, totalBytes: signalFile.size, rowsParsed: 0 })
     setError(null)
     
     try {
-      const [signalText, keypressText] = await Promise.all([
-        signalFile.text(),
-        keypressFile.text(),
+      const keypressText = keypressFile ? await keypressFile.text() : ""
+      const [{ header, columns, gaps, annotations, sha256: signalSha256 }, keypressSha256] = await Promise.all([
+        parseSignalFileInWorker(signalFile, {
+          fillGaps,
+          onProgress: setLoadProgress,
+          signal: abortController.signal,
+        }),
+        keypressFile ? hashFile(keypressFile) : undefined,
       ])
+      const store = createSignalStore(columns, header.samplingRate)
+      const channelKeys = header.channels.map((channel) => channel.key)
+      const parsedSignalStartTimestampMs = header.startTimestampMs
 
-      const lines = signalText.split("\n")
-
-      // Parse header to get sampling rate & absolute start time
-      let samplingRate = 1000 // default
-      let dataStartIndex = 0
-      let parsedSignalStartTimestampMs: number | null = null
-      let deviceId: string | null = null
-
-      for (let i = 0; i < lines.length; i++) {
-        if (lines[i].startsWith("# EndOfHeader")) {
-          dataStartIndex = i + 1
-          break
-        }
-        if (lines[i].startsWith("#") && lines[i].includes("sampling rate")) {
-          try {
-            const jsonStr = lines[i].substring(2) // Remove "# "
-            const headerData = JSON.parse(jsonStr)
-            const deviceKey = Object.keys(headerData)[0]
-            if (deviceKey) {
-              deviceId = deviceKey
-              const deviceInfo = headerData[deviceKey]
-              if (deviceInfo?.["sampling rate"]) {
-                samplingRate = deviceInfo["sampling rate"]
-              }
-              if (deviceInfo?.date && deviceInfo?.time) {
-                const isoString = `${deviceInfo.date}T${deviceInfo.time}`
-                const parsedDate = new Date(isoString)
-                if (!isNaN(parsedDate.getTime())) {
-                  parsedSignalStartTimestampMs = parsedDate.getTime()
-                }
-              }
-            }
-          } catch (e) {
-            console.warn("Could not parse header JSON, using default sampling rate", e)
-          }
-        }
-      }
-      
-      setSignalSamplingRate(samplingRate)
-      setSignalDeviceId(deviceId)
+      setSignalSamplingRate(header.samplingRate)
+      setSignalDeviceId(header.deviceId)
+      setSignalDevices(header.devices)
+      setChannels(header.channels)
+      setSignalGaps(gaps)
       
-      // Parse data rows - first parse all data at full resolution
-      const fullResData: DataPoint[] = []
-      let minA4 = Number.POSITIVE_INFINITY
-      let maxA4 = Number.NEGATIVE_INFINITY
-      const sampleInterval = 1 / samplingRate // seconds per sample
+      // Keep full resolution columns for crop and export
+      setSignalStore(store)
       
-      for (let i = dataStartIndex; i < lines.length; i++) {
-        const line = lines[i].trim()
-        if (!line) continue
-        
-        const values = line.split(/\s+/)
-        if (values.length < 11) continue
-        
-        // Columns: nSeq, I1, I2, O1, O2, A1, A2, A3, A4, A5, A6
-        // A1-A6 are at indices 5-10
-        const timestamp = (i - dataStartIndex) * sampleInterval
-        
-        const A1 = parseFloat(values[5]) || 0
-        const A2 = parseFloat(values[6]) || 0
-        const A3 = parseFloat(values[7]) || 0
-        const A4 = parseFloat(values[8]) || 0
-        const A5 = parseFloat(values[9]) || 0
-        const A6 = parseFloat(values[10]) || 0
-
-        minA4 = Math.min(minA4, A4)
-        maxA4 = Math.max(maxA4, A4)
-
-        fullResData.push({
-          timestamp,
-          A1,
-          A2,
-          A3,
-          A4,
-          A5,
-          A6,
-        })
-      }
-      
-      // Store full resolution data for export
-      setRawData(fullResData)
+      // Overview of the whole recording; the chart draws viewport detail from the store
+      setData(getOverviewPoints(store, channelKeys))
+      setYRanges(computeStoreRanges(store, channelKeys))
       
-      // Sample data for visualization to improve performance
-      const sampleStep = Math.max(1, Math.floor(fullResData.length / 10000))
-      const sampledData = fullResData.filter((_, idx) => idx % sampleStep === 0)
-      
-      setData(sampledData)
+      const [timeMin, timeMax] = getTimeRange(store)
 
-      if (fullResData.length > 0) {
-        setYRange([minA4, maxA4])
+      if (keypressFile) {
+        // Align keypress labels with the OpenSignals timestamps
+        const result = parseKeypressLabelSegmentsWithMetadata(
+          keypressText,
+          parsedSignalStartTimestampMs,
+          [timeMin, timeMax]
+        )
+        setLabelSegments(result.segments)
+        setKeypressStartTimestampMs(result.keypressStartTimestampMs)
+        setKeypressSamplingRate(result.samplingRate)
+        setClockCorrection({ clockOffsetMs: result.clockOffsetMs, clockDriftPpm: result.clockDriftPpm })
       } else {
-        setYRange(null)
+        // Without a labels file, use the annotations stored in the recording
+        setLabelSegments(
+          (annotations ?? [])
+            .map((segment) => ({
+              ...segment,
+              start: Math.max(segment.start, timeMin),
+              end: Math.min(segment.end, timeMax),
+            }))
+            .filter((segment) => segment.end > segment.start)
+        )
+        setKeypressStartTimestampMs(parsedSignalStartTimestampMs)
+        setKeypressSamplingRate(1000)
+        setClockCorrection(NO_CLOCK_CORRECTION)
       }
-      
-      const timeMin = fullResData.length > 0 ? fullResData[0].timestamp : 0
-      const timeMax = fullResData.length > 0 ? fullResData[fullResData.length - 1].timestamp : 0
-
-      // Align keypress labels with the OpenSignals timestamps
-      const result = parseKeypressLabelSegmentsWithMetadata(
-        keypressText,
-        parsedSignalStartTimestampMs,
-        [timeMin, timeMax]
-      )
-      setLabelSegments(result.segments)
+      // A new recording starts from the default schema; labels outside it show up as unknown to map
+      setLabelSchema(DEFAULT_LABEL_SCHEMA)
       setSignalStartTimestampMs(parsedSignalStartTimestampMs)
-      setKeypressStartTimestampMs(result.keypressStartTimestampMs)
-      setKeypressSamplingRate(result.samplingRate)
+      setSourceFiles({
+        signal: signalFile.name,
+        keypress: keypressFile?.name ?? null,
+        signalSha256,
+        keypressSha256,
+      })
 
-      setLoading(false)
-      return { timeMin, timeMax }
+      return { timeMin, timeMax, channels: header.channels }
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error")
-      setLoading(false)
+      // A cancelled load leaves the previous state untouched
+      if (!(err instanceof DOMException && err.name === "AbortError")) {
+        setError(err instanceof Error ? err.message : "Unknown error")
+      }
+      return null
+    } finally {
+      if (loadAbortRef.current === abortController) {
+        loadAbortRef.current = null
+        setLoading(false)
+        setLoadProgress(null)
+      }
+    }
+  }
+
+  const cancelLoading = () => {
+    loadAbortRef.current?.abort()
+  }
+
+  const restoreSession = (session: SessionDraft, signal: Omit<SavedSignal, "id">) => {
+    const store = createSignalStore(
+      signal.columns,
+      session.samplingRate,
+      signal.startTime,
+      session.cropOffsetSamples
+    )
+    const channelKeys = session.channels.map((channel) => channel.key)
+
+    setSignalSamplingRate(session.samplingRate)
+    setSignalDeviceId(session.deviceId)
+    setSignalDevices(session.devices ?? [])
+    setChannels(session.channels)
+    setSignalGaps(session.signalGaps)
+    setFillGaps(session.fillGaps)
+    setSignalStore(store)
+    setData(getOverviewPoints(store, channelKeys))
+    setYRanges(computeStoreRanges(store, channelKeys))
+    setLabelSegments(session.labelSegments)
+    setLabelSchema(session.labelSchema ?? DEFAULT_LABEL_SCHEMA)
+    setSignalStartTimestampMs(session.signalStartTimestampMs)
+    setKeypressStartTimestampMs(session.keypressStartTimestampMs)
+    setKeypressSamplingRate(session.keypressSamplingRate)
+    setClockCorrection({
+      clockOffsetMs: session.clockOffsetMs ?? 0,
+      clockDriftPpm: session.clockDriftPpm ?? 0,
+    })
+    setSourceFiles(session.sourceFiles)
+    setError(null)
+  }
+
+  async function loadProject(projectFile: File) {
+    loadAbortRef.current?.abort()
+    loadAbortRef.current = null
+    setLoading(true)
+    setError(null)
+
+    try {
+      const project = await readProjectArchive(projectFile)
+      restoreSession(project.session, project.signal)
+      return project
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to open project")
       return null
+    } finally {
+      setLoading(false)
     }
   }
 
+  const setChannelSensor = (channelKey: string, sensor: string) => {
+    setChannels((prev) =>
+      prev.map((channel) => (channel.key === channelKey ? { ...channel, sensor } : channel))
+    )
+  }
+
   const handleSignalFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -163,45 +220,67 @@ export function useChartData() {
 
   const resetAll = () => {
     setData([])
-    setRawData([])
+    setSignalStore(EMPTY_SIGNAL_STORE)
+    setChannels([])
+    setSignalGaps([])
     setLabelSegments([])
+    setLabelSchema(DEFAULT_LABEL_SCHEMA)
     setSignalFile(null)
     setKeypressFile(null)
-    setYRange(null)
+    setSourceFiles(null)
+    setYRanges({})
     setError(null)
     setSignalStartTimestampMs(null)
     setKeypressStartTimestampMs(null)
     setKeypressSamplingRate(1000)
+    setClockCorrection(NO_CLOCK_CORRECTION)
     setSignalSamplingRate(1000)
     setSignalDeviceId(null)
+    setSignalDevices([])
     if (signalInputRef.current) signalInputRef.current.value = ""
     if (keypressInputRef.current) keypressInputRef.current.value = ""
   }
 
   return {
     data,
-    rawData,
+    signalStore,
+    channels,
+    signalGaps,
+    fillGaps,
     labelSegments,
+    labelSchema,
     loading,
+    loadProgress,
     error,
-    yRange,
+    yRanges,
     signalFile,
     keypressFile,
+    sourceFiles,
     signalInputRef,
     keypressInputRef,
     signalStartTimestampMs,
     keypressStartTimestampMs,
     keypressSamplingRate,
+    clockCorrection,
     signalSamplingRate,
     signalDeviceId,
+    signalDevices,
     setData,
-    setRawData,
+    setSignalStore,
     setLabelSegments,
+    setLabelSchema,
+    setSignalGaps,
+    setFillGaps,
     setError,
-    setYRange,
+    setYRanges,
     setSignalStartTimestampMs,
     setKeypressStartTimestampMs,
+    setClockCorrection,
+    setChannelSensor,
     processFiles,
+    restoreSession,
+    loadProject,
+    cancelLoading,
     handleSignalFileChange,
     handleKeypressFileChange,
     resetAll,
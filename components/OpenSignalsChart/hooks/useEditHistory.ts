@@ -0,0 +1,123 @@
+import { useState, useRef, useEffect } from "react"
+import type { EditLogEntry, HistoryEntry } from "../types"
+import { isEditableTarget } from "../utils"
+
+const MAX_HISTORY_ENTRIES = 200
+
+function toLogEntries<T>(entry: HistoryEntry<T>): EditLogEntry[] {
+  return entry.folded ?? [{ description: entry.description, timestamp: entry.timestamp }]
+}
+
+// Applied steps for the edit log, with folded steps listed one by one
+export function getEditLog<T>(entries: HistoryEntry<T>[], cursor: number): EditLogEntry[] {
+  return entries.slice(0, cursor).flatMap(toLogEntries)
+}
+
+interface HistoryState<T> {
+  entries: HistoryEntry<T>[]
+  // Number of entries currently applied; entries past the cursor can be redone
+  cursor: number
+}
+
+export function useEditHistory<T>(applySnapshot: (snapshot: T) => void) {
+  const historyRef = useRef<HistoryState<T>>({ entries: [], cursor: 0 })
+  const [history, setHistory] = useState<HistoryState<T>>({ entries: [], cursor: 0 })
+  const applySnapshotRef = useRef(applySnapshot)
+  const nextId = useRef(1)
+
+  useEffect(() => {
+    applySnapshotRef.current = applySnapshot
+  })
+
+  const commit = (next: HistoryState<T>) => {
+    historyRef.current = next
+    setHistory(next)
+  }
+
+  // Entries sharing a coalesce key with the latest entry extend it instead of adding a step
+  const recordEdit = (description: string, before: T, after: T, coalesceKey?: string) => {
+    const { entries, cursor } = historyRef.current
+    const applied = entries.slice(0, cursor)
+    const last = applied[applied.length - 1]
+
+    if (coalesceKey && last?.coalesceKey === coalesceKey) {
+      applied[applied.length - 1] = { ...last, after, timestamp: Date.now() }
+      commit({ entries: applied, cursor: applied.length })
+      return
+    }
+
+    applied.push({ id: nextId.current++, description, timestamp: Date.now(), before, after, coalesceKey })
+    // Past the limit the two oldest steps merge, so the first entry still starts from the loaded data
+    if (applied.length > MAX_HISTORY_ENTRIES) {
+      const [first, second] = applied.splice(0, 2)
+      const folded = [...toLogEntries(first), ...toLogEntries(second)]
+      applied.unshift({
+        id: first.id,
+        description: `${folded.length} earlier edits`,
+        timestamp: second.timestamp,
+        before: first.before,
+        after: second.after,
+        folded,
+      })
+    }
+    commit({ entries: applied, cursor: applied.length })
+  }
+
+  const undo = () => {
+    const { entries, cursor } = historyRef.current
+    if (cursor === 0) return
+    applySnapshotRef.current(entries[cursor - 1].before)
+    commit({ entries, cursor: cursor - 1 })
+  }
+
+  const redo = () => {
+    const { entries, cursor } = historyRef.current
+    if (cursor >= entries.length) return
+    applySnapshotRef.current(entries[cursor].after)
+    commit({ entries, cursor: cursor + 1 })
+  }
+
+  // Snapshots are complete states, so any point in the history can be restored directly
+  const jumpTo = (target: number) => {
+    const { entries, cursor } = historyRef.current
+    if (target === cursor || target < 0 || target > entries.length) return
+    applySnapshotRef.current(target === 0 ? entries[0].before : entries[target - 1].after)
+    commit({ entries, cursor: target })
+  }
+
+  const clearHistory = () => {
+    commit({ entries: [], cursor: 0 })
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return
+
+      const key = e.key.toLowerCase()
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault()
+        redo()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+    }
+  })
+
+  return {
+    historyEntries: history.entries,
+    historyCursor: history.cursor,
+    canUndo: history.cursor > 0,
+    canRedo: history.cursor < history.entries.length,
+    recordEdit,
+    undo,
+    redo,
+    jumpTo,
+    clearHistory,
+  }
+}
@@ -0,0 +1,155 @@
+import { useState, useRef, useEffect } from "react"
+import type { LabelDefinition, LabelSegment } from "../types"
+import { isEditableTarget } from "../utils"
+
+export const LABELING_STEP_OPTIONS = [0.01, 0.05, 0.1, 0.5, 1]
+export const PLAYBACK_RATE_OPTIONS = [0.25, 0.5, 1, 2, 4]
+
+interface PaintState {
+  label: string
+  hotkey: string
+  start: number
+}
+
+// Keyboard labeling like the original keypress logger: holding a label's hotkey paints it from
+// where the playhead was on press to where it is on release, while arrows or playback move it
+export function useLabelingMode(
+  labelSchema: LabelDefinition[],
+  samplingRate: number,
+  timeRange: [number, number],
+  onPaint: (label: string, start: number, end: number) => void,
+  onPlayheadMove: (time: number) => void
+) {
+  const [active, setActive] = useState(false)
+  const [playhead, setPlayhead] = useState(0)
+  const [stepSeconds, setStepSeconds] = useState(0.1)
+  const [playing, setPlaying] = useState(false)
+  const [playbackRate, setPlaybackRate] = useState(1)
+  const [painting, setPainting] = useState<PaintState | null>(null)
+  // Playback advances the playhead between renders, so handlers read it from here
+  const playheadRef = useRef(0)
+
+  // Snapped to the sample grid so one arrow press is exactly one sample
+  const movePlayhead = (time: number) => {
+    const clamped = Math.min(timeRange[1], Math.max(timeRange[0], time))
+    const snapped = timeRange[0] + Math.round((clamped - timeRange[0]) * samplingRate) / samplingRate
+    playheadRef.current = snapped
+    setPlayhead(snapped)
+    onPlayheadMove(snapped)
+  }
+
+  const latestRef = useRef({ movePlayhead, timeEnd: timeRange[1] })
+  useEffect(() => {
+    latestRef.current = { movePlayhead, timeEnd: timeRange[1] }
+  })
+
+  const start = (time: number) => {
+    setActive(true)
+    movePlayhead(time)
+  }
+
+  const stop = () => {
+    setActive(false)
+    setPlaying(false)
+    setPainting(null)
+  }
+
+  useEffect(() => {
+    if (!playing) return
+    // Measured from where playback started, so rounding to samples never stalls it
+    const origin = playheadRef.current
+    const startedAt = performance.now()
+    let frame = 0
+    const tick = (now: number) => {
+      const target = origin + ((now - startedAt) / 1000) * playbackRate
+      latestRef.current.movePlayhead(target)
+      if (target >= latestRef.current.timeEnd) {
+        setPlaying(false)
+        return
+      }
+      frame = requestAnimationFrame(tick)
+    }
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [playing, playbackRate])
+
+  useEffect(() => {
+    if (!active) return
+
+    const finishPaint = () => {
+      if (!painting) return
+      const end = playheadRef.current
+      if (end !== painting.start) {
+        onPaint(painting.label, Math.min(painting.start, end), Math.max(painting.start, end))
+      }
+      setPainting(null)
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return
+
+      if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+        e.preventDefault()
+        const step = e.shiftKey ? stepSeconds : 1 / samplingRate
+        movePlayhead(playheadRef.current + (e.key === "ArrowRight" ? step : -step))
+        return
+      }
+      if (e.key === " ") {
+        e.preventDefault()
+        setPlaying(!playing)
+        return
+      }
+      if (e.key === "Escape") {
+        if (painting) setPainting(null)
+        else stop()
+        return
+      }
+
+      const key = e.key.toLowerCase()
+      const definition = labelSchema.find((candidate) => candidate.hotkey === key)
+      if (!definition) return
+      e.preventDefault()
+      if (e.repeat || painting) return
+      setPainting({ label: definition.name, hotkey: key, start: playheadRef.current })
+    }
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (painting && e.key.toLowerCase() === painting.hotkey) finishPaint()
+    }
+
+    // A release outside the window never arrives, so drop the stroke rather than leave it stuck
+    const handleBlur = () => setPainting(null)
+
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("keyup", handleKeyUp)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("keyup", handleKeyUp)
+      window.removeEventListener("blur", handleBlur)
+    }
+  })
+
+  const paintRange: LabelSegment | null = painting
+    ? {
+        label: painting.label,
+        start: Math.min(painting.start, playhead),
+        end: Math.max(painting.start, playhead),
+      }
+    : null
+
+  return {
+    labelingActive: active,
+    playhead: active ? playhead : null,
+    paintRange,
+    stepSeconds,
+    setStepSeconds,
+    playing,
+    setPlaying,
+    playbackRate,
+    setPlaybackRate,
+    movePlayhead,
+    startLabeling: start,
+    stopLabeling: stop,
+  }
+}
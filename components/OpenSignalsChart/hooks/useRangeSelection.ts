@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react"
+import { getClampedTimeAtOffsetX, getTimeAtOffsetX } from "../components/chartLayout"
+
+// Shorter drags are treated as a plain click
+const MIN_DRAG_PIXELS = 3
+
+// "create" lays out a new segment, "select" picks the segments under the range
+export type RangeSelectionMode = "create" | "select"
+
+export interface PendingRange {
+  start: number
+  end: number
+  // Where the mouse was released, relative to the chart container
+  x: number
+  y: number
+}
+
+// Rubber-bands a time range on the plot. A "create" range waits for a label on release, a
+// "select" range is handed to `onSelectRange`, and a release without a drag is a click
+export function useRangeSelection(
+  chartRef: React.RefObject<HTMLDivElement | null>,
+  currentDomain: [number, number],
+  onSelectRange: (start: number, end: number) => void,
+  onClick: (clientX: number) => void
+) {
+  const [rangeDrag, setRangeDrag] = useState<{
+    mode: RangeSelectionMode
+    anchor: number
+    current: number
+    startX: number
+  } | null>(null)
+  const [pendingRange, setPendingRange] = useState<PendingRange | null>(null)
+
+  const beginRangeSelection = (clientX: number, mode: RangeSelectionMode): boolean => {
+    const rect = chartRef.current?.getBoundingClientRect()
+    const time = rect ? getTimeAtOffsetX(clientX - rect.left, rect.width, currentDomain) : null
+    if (time === null) return false
+    setPendingRange(null)
+    setRangeDrag({ mode, anchor: time, current: time, startX: clientX })
+    return true
+  }
+
+  useEffect(() => {
+    if (!rangeDrag) return
+
+    const handleMouseMove = (e: MouseEvent) => {
+      // Past the side of the plot the range runs to that edge, matching the band drawn
+      const rect = chartRef.current?.getBoundingClientRect()
+      if (!rect) return
+      setRangeDrag({ ...rangeDrag, current: getClampedTimeAtOffsetX(e.clientX - rect.left, rect.width, currentDomain) })
+    }
+
+    const handleMouseUp = (e: MouseEvent) => {
+      setRangeDrag(null)
+      const rect = chartRef.current?.getBoundingClientRect()
+      if (!rect) return
+      if (Math.abs(e.clientX - rangeDrag.startX) < MIN_DRAG_PIXELS) {
+        onClick(rangeDrag.startX)
+        return
+      }
+      const start = Math.min(rangeDrag.anchor, rangeDrag.current)
+      const end = Math.max(rangeDrag.anchor, rangeDrag.current)
+      if (rangeDrag.mode === "select") {
+        onSelectRange(start, end)
+        return
+      }
+      setPendingRange({ start, end, x: e.clientX - rect.left, y: e.clientY - rect.top })
+    }
+
+    document.body.style.cursor = rangeDrag.mode === "select" ? "crosshair" : "col-resize"
+    document.addEventListener("mousemove", handleMouseMove)
+    document.addEventListener("mouseup", handleMouseUp)
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove)
+      document.removeEventListener("mouseup", handleMouseUp)
+      document.body.style.cursor = ""
+    }
+  })
+
+  const rangeSelection: [number, number] | null = rangeDrag
+    ? [Math.min(rangeDrag.anchor, rangeDrag.current), Math.max(rangeDrag.anchor, rangeDrag.current)]
+    : pendingRange && [pendingRange.start, pendingRange.end]
+
+  return {
+    rangeSelection,
+    pendingRange,
+    beginRangeSelection,
+    cancelPendingRange: () => setPendingRange(null),
+  }
+}
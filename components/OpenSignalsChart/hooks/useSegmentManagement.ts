@@ -1,74 +1,100 @@
 import { useState, useEffect, useRef } from "react"
-import type { LabelSegment, DraggingEdgeState, HoveredEdgeState } from "../types"
+import type { LabelDefinition, LabelSegment, DraggingEdgeState, HoveredEdgeState } from "../types"
+import { MERGE_SEGMENT_KEY, MIN_SEGMENT_DURATION, SEGMENT_MATCH_EPSILON, SPLIT_SEGMENT_KEY } from "../constants"
+import { getPlotArea, getTimeAtOffsetX } from "../components/chartLayout"
+import { getMergeRange, isEditableTarget, mergeSegments, moveSegments, splitSegment } from "../utils"
 
 export function useSegmentManagement(
   labelSegments: LabelSegment[],
-  setLabelSegments: (segments: LabelSegment[] | ((prev: LabelSegment[]) => LabelSegment[])) => void,
+  editSegments: (
+    description: string,
+    update: (prev: LabelSegment[]) => LabelSegment[],
+    coalesceKey?: string
+  ) => void,
   data: { timestamp: number }[],
   xDomain: [number, number] | undefined,
-  chartRef: React.RefObject<HTMLDivElement | null>
+  chartRef: React.RefObject<HTMLDivElement | null>,
+  selectedSegmentIndices: number[],
+  setSelectedSegmentIndices: (indices: number[]) => void,
+  labelSchema: LabelDefinition[],
+  // Set while labeling mode is on; splits then happen at the playhead instead of the mouse
+  playhead: number | null
 ) {
   const [draggingEdge, setDraggingEdge] = useState<DraggingEdgeState | null>(null)
   const [hoveredEdge, setHoveredEdge] = useState<HoveredEdgeState | null>(null)
-  const [selectedSegmentIndex, setSelectedSegmentIndex] = useState<number | null>(null)
+  // Last mouse x over the chart, for splitting from the keyboard. Mapped to a time on the key
+  // press, so a wheel zoom or pan since the last move still splits under the cursor
+  const pointerXRef = useRef<number | null>(null)
+  // editSegments is recreated on every render; read through a ref so a drag keeps its listeners
+  const editSegmentsRef = useRef(editSegments)
+
+  useEffect(() => {
+    editSegmentsRef.current = editSegments
+  })
 
   // Handle mouse move for dragging segment edges
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       if (!draggingEdge) return
 
-      const chartWidth = chartRef.current?.clientWidth || 800
+      const plot = getPlotArea(chartRef.current?.clientWidth || 800)
       const currentDomain = xDomain || (data.length > 0 ? [data[0].timestamp, data[data.length - 1].timestamp] : [0, 1])
       const currentDomainWidth = currentDomain[1] - currentDomain[0]
-      const timePerPixel = currentDomainWidth / chartWidth
+      const timePerPixel = currentDomainWidth / plot.width
       const deltaX = e.clientX - draggingEdge.initialX
       const timeDelta = deltaX * timePerPixel
 
       const newTime = draggingEdge.initialTime + timeDelta
+      // Every move of one drag collapses into a single undo step
+      const dragKey = `edge-drag-${draggingEdge.segmentIndex}-${draggingEdge.edge}-${draggingEdge.initialX}-${draggingEdge.initialTime}`
 
       // Update the segment and adjacent segments to maintain continuity
-      setLabelSegments((prevSegments) => {
+      editSegmentsRef.current("Move segment edge", (prevSegments) => {
         const newSegments = [...prevSegments]
-        const segment = newSegments[draggingEdge.segmentIndex]
+        // Copy the touched segments so earlier history snapshots stay intact
+        const segment = { ...newSegments[draggingEdge.segmentIndex] }
+        newSegments[draggingEdge.segmentIndex] = segment
         
         if (draggingEdge.edge === 'start') {
           // When dragging start edge, also update the end of the previous segment
           const prevSegmentIndex = draggingEdge.segmentIndex - 1
           
           if (prevSegmentIndex >= 0) {
-            const prevSegment = newSegments[prevSegmentIndex]
+            const prevSegment = { ...newSegments[prevSegmentIndex] }
+            newSegments[prevSegmentIndex] = prevSegment
             // Don't let it go past the current segment's end or before previous segment's start
             const constrainedTime = Math.max(
-              prevSegment.start + 0.01,
-              Math.min(newTime, segment.end - 0.01)
+              prevSegment.start + MIN_SEGMENT_DURATION,
+              Math.min(newTime, segment.end - MIN_SEGMENT_DURATION)
             )
             segment.start = constrainedTime
             prevSegment.end = constrainedTime
           } else {
             // First segment - just constrain to not go past end
-            segment.start = Math.min(newTime, segment.end - 0.01)
+            segment.start = Math.min(newTime, segment.end - MIN_SEGMENT_DURATION)
           }
         } else {
           // When dragging end edge, also update the start of the next segment
           const nextSegmentIndex = draggingEdge.segmentIndex + 1
           
           if (nextSegmentIndex < newSegments.length) {
-            const nextSegment = newSegments[nextSegmentIndex]
+            const nextSegment = { ...newSegments[nextSegmentIndex] }
+            newSegments[nextSegmentIndex] = nextSegment
             // Don't let it go before the current segment's start or past next segment's end
             const constrainedTime = Math.min(
-              nextSegment.end - 0.01,
-              Math.max(newTime, segment.start + 0.01)
+              nextSegment.end - MIN_SEGMENT_DURATION,
+              Math.max(newTime, segment.start + MIN_SEGMENT_DURATION)
             )
             segment.end = constrainedTime
             nextSegment.start = constrainedTime
           } else {
             // Last segment - just constrain to not go before start
-            segment.end = Math.max(newTime, segment.start + 0.01)
+            segment.end = Math.max(newTime, segment.start + MIN_SEGMENT_DURATION)
           }
         }
         
         return newSegments
-      })
+      }, dragKey)
     }
 
     const handleMouseUp = () => {
@@ -87,25 +113,117 @@ export function useSegmentManagement(
         document.body.style.cursor = ''
       }
     }
-  }, [draggingEdge, data, xDomain, chartRef, setLabelSegments])
+  }, [draggingEdge, data, xDomain, chartRef])
+
+  const splitSegmentAt = (index: number, time: number): boolean => {
+    const segment = labelSegments[index]
+    if (!segment || !splitSegment(labelSegments, index, time)) return false
+    editSegments(`Split "${segment.label}" segment`, (prevSegments) => splitSegment(prevSegments, index, time) ?? prevSegments)
+    return true
+  }
+
+  // Joins the segment with every touching neighbour of the same label, e.g. after keypress jitter
+  const mergeSegmentRun = (index: number): boolean => {
+    const range = getMergeRange(labelSegments, index)
+    if (!range) return false
+    const count = range[1] - range[0] + 1
+    editSegments(`Merge ${count} "${labelSegments[index].label}" segments`, (prevSegments) => mergeSegments(prevSegments, range))
+    setSelectedSegmentIndices([range[0]])
+    return true
+  }
+
+  const relabelSegments = (indices: number[], label: string) => {
+    const changed = new Set(indices.filter((idx) => labelSegments[idx] && labelSegments[idx].label !== label))
+    if (changed.size === 0) return
+    const description =
+      indices.length === 1
+        ? `Relabel "${labelSegments[indices[0]].label}" segment as "${label}"`
+        : `Relabel ${changed.size} segments as "${label}"`
+    editSegments(description, (prevSegments) =>
+      prevSegments.map((prevSegment, idx) => (changed.has(idx) ? { ...prevSegment, label } : prevSegment))
+    )
+  }
+
+  const deleteSegments = (indices: number[]) => {
+    if (indices.length === 0) return
+    const deleted = new Set(indices)
+    editSegments(indices.length === 1 ? "Delete segment" : `Delete ${indices.length} segments`, (prevSegments) =>
+      prevSegments.filter((_, idx) => !deleted.has(idx))
+    )
+    setSelectedSegmentIndices([])
+  }
+
+  // Moves the selected segments' edges, with their neighbours following, and keeps them selected
+  const moveSelectedSegments = (description: string, mapTime: (time: number) => number) => {
+    if (selectedSegmentIndices.length === 0) return
+    const moved = moveSegments(labelSegments, selectedSegmentIndices, mapTime)
+    editSegments(description, () => moved.segments)
+    setSelectedSegmentIndices(moved.movedIndices)
+  }
+
+  // Typed-in times for one segment; neighbours that shared an edge follow it like an edge drag
+  const setSegmentBounds = (index: number, start: number, end: number) => {
+    const segment = labelSegments[index]
+    if (!segment || (segment.start === start && segment.end === end)) return
+    const isNear = (a: number, b: number) => Math.abs(a - b) <= SEGMENT_MATCH_EPSILON
+    const moved = moveSegments(labelSegments, [index], (time) =>
+      isNear(time, segment.start) ? start : isNear(time, segment.end) ? end : time
+    )
+    editSegments(`Edit "${segment.label}" segment times`, () => moved.segments)
+    setSelectedSegmentIndices(moved.movedIndices)
+  }
+
+  const trackPointer = (clientX: number | null) => {
+    pointerXRef.current = clientX
+  }
 
-  // Handle keyboard events for deleting selected segment
+  const getPointerTime = (): number | null => {
+    const rect = chartRef.current?.getBoundingClientRect()
+    if (!rect || pointerXRef.current === null) return null
+    const currentDomain = xDomain || (data.length > 0 ? [data[0].timestamp, data[data.length - 1].timestamp] : [0, 1])
+    return getTimeAtOffsetX(pointerXRef.current - rect.left, rect.width, currentDomain)
+  }
+
+  // Keyboard actions on the selected segments
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (selectedSegmentIndex === null) return
+      if (selectedSegmentIndices.length === 0) return
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditableTarget(e.target)) return
       
       if (e.key === 'Delete' || e.key === 'Backspace') {
         e.preventDefault()
-        setLabelSegments((prevSegments) => {
-          const newSegments = prevSegments.filter((_, idx) => idx !== selectedSegmentIndex)
-          return newSegments
-        })
-        setSelectedSegmentIndex(null)
+        deleteSegments(selectedSegmentIndices)
+        return
       }
       
       // ESC to deselect
       if (e.key === 'Escape') {
-        setSelectedSegmentIndex(null)
+        setSelectedSegmentIndices([])
+        return
+      }
+
+      // Label hotkeys relabel the selection, except in labeling mode where they paint
+      const definition = labelSchema.find((candidate) => candidate.hotkey === e.key.toLowerCase())
+      if (definition && playhead === null && !e.shiftKey) {
+        e.preventDefault()
+        relabelSegments(selectedSegmentIndices, definition.name)
+        return
+      }
+
+      // Splitting and merging act on a single segment
+      if (selectedSegmentIndices.length !== 1) return
+      const selectedSegmentIndex = selectedSegmentIndices[0]
+
+      if (e.key === SPLIT_SEGMENT_KEY) {
+        const time = playhead ?? getPointerTime()
+        e.preventDefault()
+        if (time !== null) splitSegmentAt(selectedSegmentIndex, time)
+        return
+      }
+
+      if (e.key.toLowerCase() === MERGE_SEGMENT_KEY) {
+        e.preventDefault()
+        mergeSegmentRun(selectedSegmentIndex)
       }
     }
 
@@ -113,24 +231,14 @@ export function useSegmentManagement(
     return () => {
       document.removeEventListener('keydown', handleKeyDown)
     }
-  }, [selectedSegmentIndex, setLabelSegments])
+  })
 
   // Helper function to get time from mouse position
   const getTimeFromMouseX = (clientX: number, currentDomain: [number, number]): number | null => {
     if (!chartRef.current) return null
     
     const rect = chartRef.current.getBoundingClientRect()
-    const chartWidth = rect.width
-    const margin = { left: 20, right: 30 }
-    const plotWidth = chartWidth - margin.left - margin.right
-    
-    const relativeX = clientX - rect.left - margin.left
-    if (relativeX < 0 || relativeX > plotWidth) return null
-    
-    const domainWidth = currentDomain[1] - currentDomain[0]
-    const time = currentDomain[0] + (relativeX / plotWidth) * domainWidth
-    
-    return time
+    return getTimeAtOffsetX(clientX - rect.left, rect.width, currentDomain)
   }
 
   // Helper function to find edge near mouse position
@@ -140,11 +248,9 @@ export function useSegmentManagement(
     
     // Threshold in time units for detecting edge proximity
     const domainWidth = currentDomain[1] - currentDomain[0]
-    const chartWidth = chartRef.current?.clientWidth || 800
-    const margin = { left: 20, right: 30 }
-    const plotWidth = chartWidth - margin.left - margin.right
+    const plot = getPlotArea(chartRef.current?.clientWidth || 800)
     const pixelThreshold = 15 // pixels - increased for easier grabbing
-    const timeThreshold = (pixelThreshold / plotWidth) * domainWidth
+    const timeThreshold = (pixelThreshold / plot.width) * domainWidth
     
     for (let idx = 0; idx < labelSegments.length; idx++) {
       const segment = labelSegments[idx]
@@ -190,10 +296,16 @@ export function useSegmentManagement(
     setDraggingEdge,
     hoveredEdge,
     setHoveredEdge,
-    selectedSegmentIndex,
-    setSelectedSegmentIndex,
+    getTimeFromMouseX,
     findEdgeNearMouse,
     findSegmentAtMouse,
+    trackPointer,
+    splitSegmentAt,
+    mergeSegmentRun,
+    relabelSegments,
+    deleteSegments,
+    moveSelectedSegments,
+    setSegmentBounds,
   }
 }
 
@@ -0,0 +1,108 @@
+import { useState, useRef, useEffect } from "react"
+import type { SavedSession, SavedSignal, SessionDraft, SignalStore } from "../types"
+import { deleteSession, listSessions, loadSession, pruneSessions, saveSession } from "../sessionDb"
+import { compactSignalColumns } from "../signalStore"
+
+const AUTOSAVE_DELAY_MS = 1000
+// Every session keeps its own copy of the signal, so only the most recent ones are kept around
+const MAX_SAVED_SESSIONS = 5
+
+function createSessionId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+function describeSaveError(err: unknown): string {
+  if (err instanceof DOMException && err.name === "QuotaExceededError") {
+    return "Browser storage is full, so this session is no longer auto-saved. Discard older sessions to free space."
+  }
+  return err instanceof Error ? `Failed to auto-save session: ${err.message}` : "Failed to auto-save session"
+}
+
+export function useSessionAutosave(
+  draft: SessionDraft | null,
+  signalStore: SignalStore,
+  onSaveError: (message: string) => void
+) {
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [recentSessions, setRecentSessions] = useState<SavedSession[]>([])
+  const createdAtRef = useRef(0)
+  // The signal is only rewritten when the store changes (load or crop), not on every label edit
+  const savedStoreRef = useRef<SignalStore | null>(null)
+
+  const refreshSessions = () => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch(() => setRecentSessions([]))
+  }
+
+  useEffect(() => {
+    listSessions()
+      .then(setRecentSessions)
+      .catch(() => setRecentSessions([]))
+  }, [])
+
+  useEffect(() => {
+    if (!sessionId || !draft) return
+
+    const timer = setTimeout(() => {
+      const includeSignal = savedStoreRef.current !== signalStore
+      const signal: SavedSignal | undefined = includeSignal
+        ? { id: sessionId, columns: compactSignalColumns(signalStore), startTime: signalStore.startTime }
+        : undefined
+
+      // Make room before writing a new signal copy, so older sessions go before the quota runs out
+      const pruned = includeSignal ? pruneSessions(MAX_SAVED_SESSIONS - 1, sessionId) : Promise.resolve()
+      pruned
+        .then(() =>
+          saveSession({ ...draft, id: sessionId, createdAt: createdAtRef.current, updatedAt: Date.now() }, signal)
+        )
+        .then(() => {
+          if (includeSignal) savedStoreRef.current = signalStore
+        })
+        .catch((err) => onSaveError(describeSaveError(err)))
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [sessionId, draft, signalStore, onSaveError])
+
+  const startSession = () => {
+    createdAtRef.current = Date.now()
+    savedStoreRef.current = null
+    setSessionId(createSessionId())
+  }
+
+  const resumeSession = async (id: string) => {
+    const saved = await loadSession(id)
+    if (saved) {
+      createdAtRef.current = saved.session.createdAt
+      savedStoreRef.current = null
+      setSessionId(id)
+    }
+    return saved
+  }
+
+  const endSession = () => {
+    setSessionId(null)
+    refreshSessions()
+  }
+
+  const discardSession = async (id: string) => {
+    await deleteSession(id)
+    if (id === sessionId) {
+      setSessionId(null)
+    }
+    refreshSessions()
+  }
+
+  return {
+    sessionId,
+    recentSessions,
+    startSession,
+    resumeSession,
+    endSession,
+    discardSession,
+  }
+}
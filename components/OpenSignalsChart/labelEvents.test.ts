@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest"
+import {
+  buildLabelEvents,
+  isLabelEventsText,
+  parseLabelEventsText,
+  serializeLabelEvents,
+  type LabelEventsMetadata,
+} from "./labelEvents"
+import type { LabelSegment } from "./types"
+import { serializeKeypressLabels } from "./utils"
+
+const segments: LabelSegment[] = [
+  { start: 0.5, end: 1.25, label: "blink" },
+  { start: 2, end: 3.5, label: "left" },
+]
+
+const metadata: LabelEventsMetadata = {
+  signalStartTimestampMs: 1700000000000,
+  keypressStartTimestampMs: 1700000000120,
+  keypressSamplingRate: 100,
+  clockOffsetMs: -137.5,
+  clockDriftPpm: 12.25,
+}
+
+describe("label event clock correction", () => {
+  it.each(["events-csv", "events-json", "bids-tsv"] as const)("round-trips the offset and drift through %s", (format) => {
+    const text = serializeLabelEvents(buildLabelEvents(segments, metadata.signalStartTimestampMs), format, metadata)
+    const parsed = parseLabelEventsText(text, metadata.signalStartTimestampMs)
+
+    expect(parsed.clockOffsetMs).toBe(-137.5)
+    expect(parsed.clockDriftPpm).toBe(12.25)
+    expect(parsed.segments).toEqual(segments)
+  })
+})
+
+describe("label event round trips", () => {
+  const tricky: LabelSegment[] = [
+    { start: 0.25, end: 0.75, label: 'look "left", then up' },
+    { start: 1, end: 1.5, label: "tab\there" },
+  ]
+
+  it.each(["events-csv", "events-json", "bids-tsv"] as const)("keeps labels with delimiters and quotes through %s", (format) => {
+    const text = serializeLabelEvents(buildLabelEvents(tricky, null), format, { ...metadata, signalStartTimestampMs: null })
+
+    expect(isLabelEventsText(text)).toBe(true)
+    expect(parseLabelEventsText(text, null).segments).toEqual(tricky)
+  })
+
+  it("places events by their absolute timestamps when the signal starts elsewhere", () => {
+    const text = serializeLabelEvents(buildLabelEvents(segments, metadata.signalStartTimestampMs), "events-csv", metadata)
+    // The same events against a recording cropped to start 0.5 s later
+    const parsed = parseLabelEventsText(text, metadata.signalStartTimestampMs! + 500)
+
+    expect(parsed.segments).toEqual([
+      { start: 0, end: 0.75, label: "blink" },
+      { start: 1.5, end: 3, label: "left" },
+    ])
+  })
+
+  it("falls back to onset and duration when BIDS timestamps are n/a", () => {
+    const text = ["onset\tduration\ttrial_type\tonset_timestamp_ms", "2.5\t0.5\tup\tn/a", "n/a\t1\tdown\tn/a"].join("\n")
+
+    expect(parseLabelEventsText(text, metadata.signalStartTimestampMs).segments).toEqual([
+      { start: 2.5, end: 3, label: "up" },
+    ])
+  })
+
+  it("reads a bare JSON array of events", () => {
+    const text = JSON.stringify([{ onset: 1, offset: 2, label: "stare" }, { onset: 3, label: "" }])
+
+    expect(parseLabelEventsText(text, null).segments).toEqual([{ start: 1, end: 2, label: "stare" }])
+  })
+
+  it("does not mistake the per-sample keypress format for events", () => {
+    const keypress = serializeKeypressLabels({
+      segments,
+      signalStartTimestampMs: metadata.signalStartTimestampMs!,
+      keypressStartTimestampMs: metadata.keypressStartTimestampMs!,
+      keypressSamplingRate: 100,
+      clockOffsetMs: metadata.clockOffsetMs,
+    })
+
+    expect(isLabelEventsText(keypress)).toBe(false)
+  })
+})
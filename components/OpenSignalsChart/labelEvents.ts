@@ -0,0 +1,274 @@
+import type { ClockCorrection, LabelEventFormat, LabelSegment } from "./types"
+
+// One row per segment instead of one per keypress sample
+export interface LabelEvent {
+  onset: number
+  offset: number
+  duration: number
+  label: string
+  onsetTimestampMs: number | null
+  offsetTimestampMs: number | null
+}
+
+// The clock correction is already applied to the onsets; it is kept so the alignment can be traced back
+export interface LabelEventsMetadata extends ClockCorrection {
+  signalStartTimestampMs: number | null
+  keypressStartTimestampMs: number | null
+  keypressSamplingRate: number
+}
+
+const EVENTS_JSON_FORMAT = "oculy-label-events"
+// CSV keeps the clock correction in comment lines; BIDS readers reject those, so it gets columns there
+const CLOCK_OFFSET_FIELD = "clock_offset_ms"
+const CLOCK_DRIFT_FIELD = "clock_drift_ppm"
+
+export function buildLabelEvents(segments: LabelSegment[], signalStartTimestampMs: number | null): LabelEvent[] {
+  return segments.map((segment) => ({
+    onset: segment.start,
+    offset: segment.end,
+    duration: segment.end - segment.start,
+    label: segment.label,
+    onsetTimestampMs: signalStartTimestampMs === null ? null : signalStartTimestampMs + segment.start * 1000,
+    offsetTimestampMs: signalStartTimestampMs === null ? null : signalStartTimestampMs + segment.end * 1000,
+  }))
+}
+
+function quoteField(value: string, delimiter: string): string {
+  return value.includes(delimiter) || value.includes('"') || value.includes("\n")
+    ? `"${value.replace(/"/g, '""')}"`
+    : value
+}
+
+function formatTimestamp(timestampMs: number | null, missing: string): string {
+  return timestampMs === null ? missing : timestampMs.toFixed(3)
+}
+
+function formatIsoTime(timestampMs: number | null, missing: string): string {
+  return timestampMs === null ? missing : new Date(timestampMs).toISOString()
+}
+
+export function serializeLabelEvents(
+  events: LabelEvent[],
+  format: LabelEventFormat,
+  metadata: LabelEventsMetadata
+): string {
+  if (format === "events-json") {
+    return JSON.stringify(
+      {
+        format: EVENTS_JSON_FORMAT,
+        ...metadata,
+        events,
+      },
+      null,
+      2
+    )
+  }
+
+  // BIDS requires onset and duration first, with n/a for missing values
+  if (format === "bids-tsv") {
+    const lines = [
+      [
+        "onset",
+        "duration",
+        "trial_type",
+        "offset",
+        "onset_timestamp_ms",
+        "offset_timestamp_ms",
+        CLOCK_OFFSET_FIELD,
+        CLOCK_DRIFT_FIELD,
+      ].join("\t"),
+    ]
+    for (const event of events) {
+      lines.push(
+        [
+          event.onset.toFixed(6),
+          event.duration.toFixed(6),
+          quoteField(event.label, "\t"),
+          event.offset.toFixed(6),
+          formatTimestamp(event.onsetTimestampMs, "n/a"),
+          formatTimestamp(event.offsetTimestampMs, "n/a"),
+          String(metadata.clockOffsetMs),
+          String(metadata.clockDriftPpm),
+        ].join("\t")
+      )
+    }
+    return lines.join("\n")
+  }
+
+  const lines = [
+    `# ${CLOCK_OFFSET_FIELD}: ${metadata.clockOffsetMs}`,
+    `# ${CLOCK_DRIFT_FIELD}: ${metadata.clockDriftPpm}`,
+    ["onset", "offset", "duration", "label", "onset_timestamp_ms", "offset_timestamp_ms", "onset_time"].join(","),
+  ]
+  for (const event of events) {
+    lines.push(
+      [
+        event.onset.toFixed(6),
+        event.offset.toFixed(6),
+        event.duration.toFixed(6),
+        quoteField(event.label, ","),
+        formatTimestamp(event.onsetTimestampMs, ""),
+        formatTimestamp(event.offsetTimestampMs, ""),
+        formatIsoTime(event.onsetTimestampMs, ""),
+      ].join(",")
+    )
+  }
+  return lines.join("\n")
+}
+
+function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field)
+      field = ""
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field)
+  return fields.map((value) => value.trim())
+}
+
+function getFirstDataLine(text: string): string | undefined {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("#"))
+}
+
+export function isLabelEventsText(text: string): boolean {
+  const trimmed = text.trimStart()
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return true
+
+  const firstLine = getFirstDataLine(text)
+  if (!firstLine) return false
+  const delimiter = firstLine.includes("\t") ? "\t" : ","
+  return splitDelimitedLine(firstLine, delimiter).some((column) => column.toLowerCase() === "onset")
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === "" || value === "n/a") return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toSegment(
+  event: Partial<Record<keyof LabelEvent, unknown>>,
+  signalStartTimestampMs: number | null
+): LabelSegment | null {
+  const label = typeof event.label === "string" ? event.label.trim() : ""
+  const onset = parseNumber(event.onset)
+  const onsetTimestampMs = parseNumber(event.onsetTimestampMs)
+  const offsetTimestampMs = parseNumber(event.offsetTimestampMs)
+  if (!label) return null
+
+  // Absolute timestamps keep events aligned even if the signal was cropped differently
+  const canUseTimestamps = signalStartTimestampMs !== null && onsetTimestampMs !== null
+  const start = canUseTimestamps ? (onsetTimestampMs - signalStartTimestampMs) / 1000 : onset
+  if (start === null) return null
+
+  const offset = parseNumber(event.offset)
+  const duration = parseNumber(event.duration)
+  let end: number | null = null
+  if (canUseTimestamps && offsetTimestampMs !== null) {
+    end = (offsetTimestampMs - signalStartTimestampMs) / 1000
+  } else if (duration !== null) {
+    end = start + duration
+  } else if (!canUseTimestamps) {
+    end = offset
+  }
+
+  if (end === null || end < start) return null
+  return { start, end, label }
+}
+
+export function parseLabelEventsText(
+  text: string,
+  signalStartTimestampMs: number | null
+): {
+  segments: LabelSegment[]
+  keypressStartTimestampMs: number | null
+  samplingRate: number | null
+  clockOffsetMs: number | null
+  clockDriftPpm: number | null
+} {
+  const trimmed = text.trimStart()
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    const parsed = JSON.parse(trimmed)
+    const events: Partial<Record<keyof LabelEvent, unknown>>[] = Array.isArray(parsed) ? parsed : parsed.events ?? []
+    return {
+      segments: events
+        .map((event) => toSegment(event, signalStartTimestampMs))
+        .filter((segment): segment is LabelSegment => segment !== null),
+      keypressStartTimestampMs: Array.isArray(parsed) ? null : parseNumber(parsed.keypressStartTimestampMs),
+      samplingRate: Array.isArray(parsed) ? null : parseNumber(parsed.keypressSamplingRate),
+      clockOffsetMs: Array.isArray(parsed) ? null : parseNumber(parsed.clockOffsetMs),
+      clockDriftPpm: Array.isArray(parsed) ? null : parseNumber(parsed.clockDriftPpm),
+    }
+  }
+
+  const allLines = text.split("\n").map((line) => line.trim())
+  const comments = allLines.filter((line) => line.startsWith("#"))
+  const commentValue = (field: string) =>
+    parseNumber(comments.find((line) => line.startsWith(`# ${field}:`))?.slice(field.length + 3).trim())
+  const lines = allLines.filter((line) => line && !line.startsWith("#"))
+  const delimiter = lines[0].includes("\t") ? "\t" : ","
+  const columns = splitDelimitedLine(lines[0], delimiter).map((column) => column.toLowerCase())
+  const columnIndex = (...names: string[]) => columns.findIndex((column) => names.includes(column))
+
+  const onsetIndex = columnIndex("onset")
+  const offsetIndex = columnIndex("offset")
+  const durationIndex = columnIndex("duration")
+  const labelIndex = columnIndex("label", "trial_type")
+  const onsetTimestampIndex = columnIndex("onset_timestamp_ms")
+  const offsetTimestampIndex = columnIndex("offset_timestamp_ms")
+  const firstRow = lines.length > 1 ? splitDelimitedLine(lines[1], delimiter) : []
+  const clockValue = (field: string) => {
+    const index = columnIndex(field)
+    return index >= 0 ? parseNumber(firstRow[index]) : commentValue(field)
+  }
+
+  const segments: LabelSegment[] = []
+  for (const line of lines.slice(1)) {
+    const values = splitDelimitedLine(line, delimiter)
+    const valueAt = (index: number) => (index >= 0 ? values[index] : undefined)
+    const segment = toSegment(
+      {
+        onset: valueAt(onsetIndex),
+        offset: valueAt(offsetIndex),
+        duration: valueAt(durationIndex),
+        label: valueAt(labelIndex),
+        onsetTimestampMs: valueAt(onsetTimestampIndex),
+        offsetTimestampMs: valueAt(offsetTimestampIndex),
+      },
+      signalStartTimestampMs
+    )
+    if (segment) segments.push(segment)
+  }
+
+  return {
+    segments,
+    keypressStartTimestampMs: null,
+    samplingRate: null,
+    clockOffsetMs: clockValue(CLOCK_OFFSET_FIELD),
+    clockDriftPpm: clockValue(CLOCK_DRIFT_FIELD),
+  }
+}
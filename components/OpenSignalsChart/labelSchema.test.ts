@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_LABEL_COLOR, DEFAULT_LABEL_SCHEMA, LABEL_PALETTE } from "./constants"
+import {
+  getNextLabelColor,
+  getUnknownLabels,
+  normalizeHotkey,
+  resolveLabelName,
+  toHexColor,
+  validateLabelSchema,
+} from "./labelSchema"
+import type { LabelDefinition } from "./types"
+
+function definition(name: string, hotkey: string | null = null): LabelDefinition {
+  return { name, color: DEFAULT_LABEL_COLOR, hotkey, description: "" }
+}
+
+describe("validateLabelSchema", () => {
+  it("accepts the default schema and labels without hotkeys", () => {
+    expect(validateLabelSchema(DEFAULT_LABEL_SCHEMA)).toBeNull()
+    expect(validateLabelSchema([definition("fixation"), definition("saccade")])).toBeNull()
+  })
+
+  it("needs a name on every label", () => {
+    expect(validateLabelSchema([definition("stare"), definition("  ")])).toBe("Every label needs a name")
+  })
+
+  it("rejects names that only differ in case or surrounding spaces", () => {
+    expect(validateLabelSchema([definition("Left"), definition(" left ")])).toBe(
+      '" left " is in the schema twice (names are compared ignoring case)'
+    )
+  })
+
+  it("rejects a hotkey shared by two labels or reserved for segment editing", () => {
+    expect(validateLabelSchema([definition("left", "a"), definition("right", "a")])).toBe(
+      'Hotkey "a" is assigned to more than one label'
+    )
+    expect(validateLabelSchema([definition("mark", "m")])).toBe(
+      'Hotkey "m" is reserved for splitting and merging segments'
+    )
+    expect(validateLabelSchema([definition("slash", "/")])).toBe(
+      'Hotkey "/" is reserved for splitting and merging segments'
+    )
+  })
+})
+
+describe("label names", () => {
+  it("snaps typed names to the schema's spelling", () => {
+    expect(resolveLabelName(" Left ", DEFAULT_LABEL_SCHEMA)).toBe("left")
+    expect(resolveLabelName(" saccade ", DEFAULT_LABEL_SCHEMA)).toBe("saccade")
+  })
+
+  it("counts labels outside the schema and suggests the one they most likely mean", () => {
+    const segments = ["stare", "Left ", "Left ", "saccade", "stare"].map((label, idx) => ({
+      start: idx,
+      end: idx + 1,
+      label,
+    }))
+
+    expect(getUnknownLabels(segments, DEFAULT_LABEL_SCHEMA)).toEqual([
+      { label: "Left ", count: 2, suggestion: "left" },
+      { label: "saccade", count: 1, suggestion: null },
+    ])
+  })
+
+  it("keeps only single-key hotkeys, in lowercase", () => {
+    expect(normalizeHotkey(" Q ")).toBe("q")
+    expect(normalizeHotkey("")).toBeNull()
+    expect(normalizeHotkey("ctrl")).toBeNull()
+  })
+})
+
+describe("label colors", () => {
+  it("hands out the first palette color the schema doesn't use yet", () => {
+    const schema = [{ ...definition("a"), color: LABEL_PALETTE[0] }]
+
+    expect(getNextLabelColor(DEFAULT_LABEL_SCHEMA)).toBe(LABEL_PALETTE[0])
+    expect(getNextLabelColor(schema)).toBe(LABEL_PALETTE[1])
+    expect(getNextLabelColor(LABEL_PALETTE.map((color) => ({ ...definition(color), color })))).toBe(DEFAULT_LABEL_COLOR)
+  })
+
+  it("converts hsl() colors to the hex form color inputs take", () => {
+    expect(toHexColor("hsl(0 100% 50%)")).toBe("#ff0000")
+    expect(toHexColor("hsl(120, 100%, 25%)")).toBe("#008000")
+    expect(toHexColor("hsl(0 0% 100%)")).toBe("#ffffff")
+    expect(toHexColor("#A1B2C3")).toBe("#a1b2c3")
+    expect(toHexColor("rebeccapurple")).toBe("#888888")
+  })
+})
@@ -0,0 +1,80 @@
+import type { LabelDefinition, LabelSegment } from "./types"
+import { DEFAULT_LABEL_COLOR, LABEL_PALETTE, MERGE_SEGMENT_KEY, SPLIT_SEGMENT_KEY } from "./constants"
+
+export interface UnknownLabel {
+  label: string
+  count: number
+  // Schema label it most likely means, e.g. "left" for "Left "
+  suggestion: string | null
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase()
+
+export function findLabelDefinition(schema: LabelDefinition[], name: string): LabelDefinition | undefined {
+  return schema.find((definition) => definition.name === name)
+}
+
+// Typed labels snap to the schema's spelling, so "Left" and "left" don't both end up in the data
+export function resolveLabelName(name: string, schema: LabelDefinition[]): string {
+  const normalized = normalizeName(name)
+  return schema.find((definition) => normalizeName(definition.name) === normalized)?.name ?? name.trim()
+}
+
+export function getUnknownLabels(segments: LabelSegment[], schema: LabelDefinition[]): UnknownLabel[] {
+  const counts = new Map<string, number>()
+  for (const segment of segments) {
+    if (findLabelDefinition(schema, segment.label)) continue
+    counts.set(segment.label, (counts.get(segment.label) ?? 0) + 1)
+  }
+  return Array.from(counts, ([label, count]) => {
+    const suggestion = resolveLabelName(label, schema)
+    return { label, count, suggestion: findLabelDefinition(schema, suggestion) ? suggestion : null }
+  })
+}
+
+export function normalizeHotkey(key: string): string | null {
+  const hotkey = key.trim().toLowerCase()
+  return hotkey.length === 1 ? hotkey : null
+}
+
+export function validateLabelSchema(schema: LabelDefinition[]): string | null {
+  const names = new Set<string>()
+  const hotkeys = new Set<string>()
+  for (const definition of schema) {
+    const name = normalizeName(definition.name)
+    if (!name) return "Every label needs a name"
+    if (names.has(name)) return `"${definition.name}" is in the schema twice (names are compared ignoring case)`
+    names.add(name)
+    if (!definition.hotkey) continue
+    if (definition.hotkey === SPLIT_SEGMENT_KEY || definition.hotkey === MERGE_SEGMENT_KEY) {
+      return `Hotkey "${definition.hotkey}" is reserved for splitting and merging segments`
+    }
+    if (hotkeys.has(definition.hotkey)) return `Hotkey "${definition.hotkey}" is assigned to more than one label`
+    hotkeys.add(definition.hotkey)
+  }
+  return null
+}
+
+export function getNextLabelColor(schema: LabelDefinition[]): string {
+  const used = new Set(schema.map((definition) => definition.color))
+  return LABEL_PALETTE.find((color) => !used.has(color)) ?? DEFAULT_LABEL_COLOR
+}
+
+// Color inputs only take #rrggbb, while the built-in colors are hsl()
+export function toHexColor(color: string): string {
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase()
+  const match = color.match(/^hsl\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%\s*\)$/)
+  if (!match) return "#888888"
+  const hue = parseFloat(match[1])
+  const saturation = parseFloat(match[2]) / 100
+  const lightness = parseFloat(match[3]) / 100
+  const chroma = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12
+    const value = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0")
+  }
+  return `#${channel(0)}${channel(8)}${channel(4)}`
+}
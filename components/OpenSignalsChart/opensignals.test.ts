@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import { createSampleAssembler, parseOpenSignalsText } from "./opensignals"
+
+const DEVICE_COLUMNS = ["nSeq", "I1", "I2", "O1", "O2", "A1", "A2"]
+
+function deviceHeader(position: number, labels: string[]) {
+  return {
+    position,
+    "sampling rate": 100,
+    date: "2024-01-01",
+    time: "12:00:00.000",
+    column: DEVICE_COLUMNS,
+    channels: [1, 2],
+    label: labels,
+    sensor: ["EOG", "EMG"],
+    resolution: [4, 1, 1, 1, 1, 10, 10],
+  }
+}
+
+function buildFile(header: Record<string, unknown>, rows: number[][]): string {
+  const lines = ["# OpenSignals Text File Format", `# ${JSON.stringify(header)}`, "# EndOfHeader"]
+  return [...lines, ...rows.map((row) => row.join("\t"))].join("\n")
+}
+
+describe("parseOpenSignalsText with several devices", () => {
+  const header = {
+    "00:07:80:4D:2E:76": deviceHeader(0, ["EOG", "EMG"]),
+    "00:07:80:0F:31:A2": deviceHeader(1, ["EOG", "EMG"]),
+  }
+
+  it("maps each device's channels to its own columns with device-suffixed keys", () => {
+    const rows = [
+      [0, 0, 0, 0, 0, 10, 20, 0, 0, 0, 0, 0, 30, 40],
+      [1, 0, 0, 0, 0, 11, 21, 1, 0, 0, 0, 0, 31, 41],
+    ]
+    const { header: parsed, columns } = parseOpenSignalsText(buildFile(header, rows))
+
+    expect(parsed.deviceId).toBe("00:07:80:4D:2E:76")
+    expect(parsed.channels.map((channel) => [channel.key, channel.deviceId, channel.columnIndex])).toEqual([
+      ["EOG_2E76", "00:07:80:4D:2E:76", 5],
+      ["EMG_2E76", "00:07:80:4D:2E:76", 6],
+      ["EOG_31A2", "00:07:80:0F:31:A2", 12],
+      ["EMG_31A2", "00:07:80:0F:31:A2", 13],
+    ])
+    expect(Array.from(columns.channels.EOG_31A2)).toEqual([30, 31])
+    expect(Array.from(columns.channels.EMG_2E76)).toEqual([20, 21])
+  })
+
+  it("orders devices by their position rather than by header order", () => {
+    const reordered = {
+      "00:07:80:0F:31:A2": deviceHeader(1, ["B1", "B2"]),
+      "00:07:80:4D:2E:76": deviceHeader(0, ["A1", "A2"]),
+    }
+    const { header: parsed } = parseOpenSignalsText(buildFile(reordered, [[0, 0, 0, 0, 0, 1, 2, 0, 0, 0, 0, 0, 3, 4]]))
+
+    expect(parsed.deviceId).toBe("00:07:80:4D:2E:76")
+    expect(parsed.channels.map((channel) => channel.columnIndex)).toEqual([5, 6, 12, 13])
+  })
+
+  it("checks only the first device's nSeq for dropped samples", () => {
+    const rows = [
+      [0, 0, 0, 0, 0, 10, 20, 0, 0, 0, 0, 0, 30, 40],
+      [1, 0, 0, 0, 0, 11, 21, 5, 0, 0, 0, 0, 31, 41],
+      [2, 0, 0, 0, 0, 12, 22, 9, 0, 0, 0, 0, 32, 42],
+    ]
+    const { columns, gaps } = parseOpenSignalsText(buildFile(header, rows))
+
+    expect(gaps).toEqual([])
+    expect(columns.length).toBe(3)
+  })
+})
+
+describe("nSeq gap detection", () => {
+  const header = { "00:07:80:4D:2E:76": deviceHeader(0, ["EOG", "EMG"]) }
+  const rowsFor = (sequence: number[]) => sequence.map((nSeq, idx) => [nSeq, 0, 0, 0, 0, idx, idx])
+
+  it("accepts the counter wrapping from 15 back to 0", () => {
+    const { columns, gaps } = parseOpenSignalsText(buildFile(header, rowsFor([14, 15, 0, 1])))
+
+    expect(gaps).toEqual([])
+    expect(columns.length).toBe(4)
+  })
+
+  it("counts the samples dropped across the wrap and fills them with NaN", () => {
+    const { columns, gaps } = parseOpenSignalsText(buildFile(header, rowsFor([14, 15, 2, 3])))
+
+    expect(gaps).toEqual([{ sampleIndex: 2, start: 0.02, end: 0.04, missingSamples: 2 }])
+    expect(Array.from(columns.channels.EOG)).toEqual([0, 1, NaN, NaN, 2, 3])
+  })
+
+  it("marks the gap with zero width when the missing samples are not filled", () => {
+    const { columns, gaps } = parseOpenSignalsText(buildFile(header, rowsFor([3, 4, 7, 8])), { fillGaps: false })
+
+    expect(gaps).toEqual([{ sampleIndex: 2, start: 0.02, end: 0.02, missingSamples: 2 }])
+    expect(columns.length).toBe(4)
+  })
+
+  it("stops checking a counter that repeats straight away", () => {
+    const { gaps } = parseOpenSignalsText(buildFile(header, rowsFor([0, 0, 0, 5])))
+
+    expect(gaps).toEqual([])
+  })
+
+  it("ignores rows without a sequence number", () => {
+    const { header: parsed } = parseOpenSignalsText(buildFile(header, []))
+    const assembler = createSampleAssembler(parsed, true)
+    assembler.push(null, () => 1)
+    assembler.push(null, () => 2)
+
+    expect(assembler.finish().gaps).toEqual([])
+  })
+})
@@ -0,0 +1,509 @@
+import type {
+  ChannelInfo,
+  ChannelKey,
+  LabelSegment,
+  OpenSignalsDevice,
+  SignalColumns,
+  SignalGap,
+  SignalStore,
+} from "./types"
+import { formatLocalDate, formatLocalTimeWithMs } from "./utils"
+import { getSampleValue } from "./signalStore"
+
+// Column layout written by OpenSignals when every channel of a BITalino is enabled
+const LEGACY_DIGITAL_COLUMNS = ["nSeq", "I1", "I2", "O1", "O2"]
+// BITalino's sequence counter wraps every 16 samples
+const NSEQ_MODULO = 16
+
+export interface OpenSignalsHeader {
+  deviceId: string | null
+  samplingRate: number
+  startTimestampMs: number | null
+  devices: OpenSignalsDevice[]
+  channels: ChannelInfo[]
+}
+
+export interface ParsedOpenSignalsFile {
+  header: OpenSignalsHeader
+  columns: SignalColumns
+  gaps: SignalGap[]
+  // Labels stored in the recording itself (EDF+ annotations)
+  annotations?: LabelSegment[]
+}
+
+export interface ParseOptions {
+  fillGaps?: boolean
+}
+
+export interface OpenSignalsDeviceHeader {
+  position?: number
+  "sampling rate"?: number
+  date?: string
+  time?: string
+  resolution?: number[]
+  channels?: number[] | number
+  sensor?: string[]
+  label?: string[]
+  column?: string[]
+}
+
+interface ChannelMapOptions {
+  deviceId: string | null
+  columnOffset: number
+  usedKeys: Set<string>
+  keySuffix?: string
+}
+
+function toChannelKey(label: string, usedKeys: Set<string>): string {
+  // Keys double as Recharts data keys, so keep them free of path separators
+  const base = label.trim().replace(/[^A-Za-z0-9_-]/g, "_") || "channel"
+  let key = base
+  let suffix = 2
+  while (usedKeys.has(key) || key === "timestamp") {
+    key = `${base}_${suffix}`
+    suffix++
+  }
+  usedKeys.add(key)
+  return key
+}
+
+export function buildChannelMap(
+  deviceHeader: OpenSignalsDeviceHeader,
+  { deviceId, columnOffset, usedKeys, keySuffix }: ChannelMapOptions
+): { columns: string[]; channels: ChannelInfo[] } {
+  // Older exports of this tool wrote a channel count instead of the channel list
+  const channelNumbers = Array.isArray(deviceHeader.channels)
+    ? deviceHeader.channels
+    : typeof deviceHeader.channels === "number"
+      ? Array.from({ length: deviceHeader.channels }, (_, idx) => idx + 1)
+      : []
+  const columns = Array.isArray(deviceHeader.column)
+    ? deviceHeader.column
+    : [...LEGACY_DIGITAL_COLUMNS, ...channelNumbers.map((channel) => `A${channel}`)]
+  const labels = Array.isArray(deviceHeader.label) ? deviceHeader.label : []
+  const sensors = Array.isArray(deviceHeader.sensor) ? deviceHeader.sensor : []
+  const resolutions = Array.isArray(deviceHeader.resolution) ? deviceHeader.resolution : []
+  const firstAnalogColumn = columns.findIndex((column) => /^A\d+$/.test(column))
+
+  const channels = channelNumbers.map((channel, idx) => {
+    const columnName = `A${channel}`
+    const namedIndex = columns.indexOf(columnName)
+    // Fall back to positional lookup when the column array uses custom names
+    const localIndex = namedIndex >= 0
+      ? namedIndex
+      : (firstAnalogColumn >= 0 ? firstAnalogColumn : LEGACY_DIGITAL_COLUMNS.length) + idx
+    const label = labels[idx] || columnName
+
+    return {
+      key: toChannelKey(keySuffix ? `${label}_${keySuffix}` : label, usedKeys),
+      label,
+      deviceId,
+      columnName,
+      columnIndex: columnOffset + localIndex,
+      channel,
+      sensor: sensors[idx] ?? "RAW",
+      resolution: resolutions[localIndex] ?? 10,
+    }
+  })
+
+  return { columns, channels }
+}
+
+function buildLegacyChannelMap(columnCount: number): { columns: string[]; channels: ChannelInfo[] } {
+  const channelNumbers = Array.from(
+    { length: Math.max(0, columnCount - LEGACY_DIGITAL_COLUMNS.length) },
+    (_, idx) => idx + 1
+  )
+  return buildChannelMap({ channels: channelNumbers }, { deviceId: null, columnOffset: 0, usedKeys: new Set() })
+}
+
+export function getDeviceKeySuffix(deviceId: string): string {
+  return deviceId.replace(/[^A-Za-z0-9]/g, "").slice(-4) || "device"
+}
+
+export function parseStartTimestamp(deviceInfo: OpenSignalsDeviceHeader): number | null {
+  if (!deviceInfo.date || !deviceInfo.time) return null
+  const parsedDate = new Date(`${deviceInfo.date}T${deviceInfo.time}`)
+  return isNaN(parsedDate.getTime()) ? null : parsedDate.getTime()
+}
+
+export function parseOpenSignalsHeader(lines: string[]): { header: OpenSignalsHeader; dataStartIndex: number } {
+  const header: OpenSignalsHeader = {
+    deviceId: null,
+    samplingRate: 1000,
+    startTimestampMs: null,
+    devices: [],
+    channels: [],
+  }
+  let dataStartIndex = 0
+
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].startsWith("# EndOfHeader")) {
+      dataStartIndex = i + 1
+      break
+    }
+    if (lines[i].startsWith("#") && lines[i].includes("sampling rate")) {
+      try {
+        const jsonStr = lines[i].substring(2) // Remove "# "
+        const headerData: Record<string, OpenSignalsDeviceHeader> = JSON.parse(jsonStr)
+        // Synchronized devices share one row; their columns follow the device position
+        const deviceEntries = Object.entries(headerData)
+          .map(([deviceId, deviceInfo], idx) => ({
+            deviceId,
+            deviceInfo: deviceInfo ?? {},
+            position: typeof deviceInfo?.position === "number" ? deviceInfo.position : idx,
+          }))
+          .sort((a, b) => a.position - b.position)
+        const isMultiDevice = deviceEntries.length > 1
+        const usedKeys = new Set<string>()
+        let columnOffset = 0
+
+        for (const { deviceId, deviceInfo, position } of deviceEntries) {
+          const { columns, channels } = buildChannelMap(deviceInfo, {
+            deviceId,
+            columnOffset,
+            usedKeys,
+            keySuffix: isMultiDevice ? getDeviceKeySuffix(deviceId) : undefined,
+          })
+          header.devices.push({
+            deviceId,
+            position,
+            columnOffset,
+            columns,
+            header: deviceInfo as Record<string, unknown>,
+          })
+          header.channels.push(...channels)
+          columnOffset += columns.length
+        }
+
+        const primary = deviceEntries[0]
+        if (primary) {
+          header.deviceId = primary.deviceId
+          const deviceInfo = primary.deviceInfo
+          if (deviceInfo["sampling rate"]) {
+            header.samplingRate = deviceInfo["sampling rate"]
+          }
+          header.startTimestampMs = parseStartTimestamp(deviceInfo)
+        }
+      } catch (e) {
+        console.warn("Could not parse header JSON, using default sampling rate", e)
+      }
+    }
+  }
+
+  return { header, dataStartIndex }
+}
+
+function getSequenceColumnIndex(device: OpenSignalsDevice | undefined): number {
+  if (!device) return -1
+  const localIndex = device.columns.indexOf("nSeq")
+  return localIndex >= 0 ? device.columnOffset + localIndex : -1
+}
+
+export interface AuxiliaryColumn {
+  key: string
+  column: string
+  columnIndex: number
+}
+
+export function getAuxiliaryColumnKey(deviceId: string, column: string): string {
+  return `${deviceId}:${column}`
+}
+
+// Device columns that aren't analog channels: the sequence counter and digital IO
+export function getAuxiliaryColumns(header: OpenSignalsHeader): AuxiliaryColumn[] {
+  const analogColumns = new Set(header.channels.map((channel) => channel.columnIndex))
+  return header.devices.flatMap((device) =>
+    device.columns
+      .map((column, idx) => ({
+        key: getAuxiliaryColumnKey(device.deviceId, column),
+        column,
+        columnIndex: device.columnOffset + idx,
+      }))
+      .filter((auxiliary) => !analogColumns.has(auxiliary.columnIndex))
+  )
+}
+
+function growBuffers(buffers: Float32Array<ArrayBuffer>[], capacity: number): Float32Array<ArrayBuffer>[] {
+  return buffers.map((buffer) => {
+    const next = new Float32Array(capacity)
+    next.set(buffer)
+    return next
+  })
+}
+
+// Collects recorded samples into typed-array columns, checking the nSeq counter for dropped packets
+export function createSampleAssembler(header: OpenSignalsHeader, fillGaps: boolean, initialCapacity = 1 << 16) {
+  const gaps: SignalGap[] = []
+  const sampleInterval = 1 / header.samplingRate // seconds per sample
+  const auxiliaryColumns = getAuxiliaryColumns(header)
+  let capacity = Math.max(1, initialCapacity)
+  let length = 0
+  let buffers = header.channels.map(() => new Float32Array(capacity))
+  let auxiliaryBuffers = auxiliaryColumns.map(() => new Float32Array(capacity))
+  let checkSequence = true
+  let previousSequence: number | null = null
+
+  const grow = () => {
+    capacity *= 2
+    buffers = growBuffers(buffers, capacity)
+    auxiliaryBuffers = growBuffers(auxiliaryBuffers, capacity)
+  }
+
+  const append = (
+    readValue: ((channel: ChannelInfo) => number) | null,
+    readAuxiliary?: (column: AuxiliaryColumn) => number
+  ) => {
+    if (length === capacity) grow()
+    for (let c = 0; c < header.channels.length; c++) {
+      buffers[c][length] = readValue ? readValue(header.channels[c]) : NaN
+    }
+    for (let a = 0; a < auxiliaryColumns.length; a++) {
+      auxiliaryBuffers[a][length] = !readValue ? NaN : readAuxiliary ? readAuxiliary(auxiliaryColumns[a]) : 0
+    }
+    length++
+  }
+
+  const push = (
+    sequence: number | null,
+    readValue: (channel: ChannelInfo) => number,
+    readAuxiliary?: (column: AuxiliaryColumn) => number
+  ) => {
+    if (checkSequence && sequence !== null && Number.isFinite(sequence)) {
+      if (previousSequence !== null && sequence === previousSequence && length === 1) {
+        // A counter that repeats straight away is not in use (e.g. zero-filled exports)
+        checkSequence = false
+      } else if (previousSequence !== null) {
+        const missingSamples = (sequence - previousSequence - 1 + NSEQ_MODULO) % NSEQ_MODULO
+        if (missingSamples > 0) {
+          // Without filling, the samples after the gap move up and the gap takes no time on the axis
+          gaps.push({
+            sampleIndex: length,
+            start: length * sampleInterval,
+            end: (length + (fillGaps ? missingSamples : 0)) * sampleInterval,
+            missingSamples,
+          })
+          if (fillGaps) {
+            for (let k = 0; k < missingSamples; k++) {
+              append(null)
+            }
+          }
+        }
+      }
+      previousSequence = sequence
+    }
+
+    append(readValue, readAuxiliary)
+  }
+
+  const finish = (): { columns: SignalColumns; gaps: SignalGap[] } => {
+    const channels: Record<ChannelKey, Float32Array> = {}
+    header.channels.forEach((channel, c) => {
+      channels[channel.key] = buffers[c].slice(0, length)
+    })
+    const auxiliary: Record<string, Float32Array> = {}
+    auxiliaryColumns.forEach((column, a) => {
+      auxiliary[column.key] = auxiliaryBuffers[a].slice(0, length)
+    })
+    return {
+      columns: { length, channels, auxiliary },
+      gaps,
+    }
+  }
+
+  return {
+    push,
+    finish,
+    get length() {
+      return length
+    },
+  }
+}
+
+function applyLegacyLayout(header: OpenSignalsHeader, firstRow: string | null) {
+  // Headerless or unreadable header: infer the legacy layout from the first data row
+  const columnCount = firstRow ? firstRow.split(/\s+/).length : 0
+  const { columns, channels } = buildLegacyChannelMap(columnCount)
+  header.devices = [{ deviceId: header.deviceId ?? "", position: 0, columnOffset: 0, columns, header: {} }]
+  header.channels = channels
+}
+
+// Accepts the text file one line at a time so large recordings can be streamed
+export function createOpenSignalsLineParser({ fillGaps = true }: ParseOptions = {}) {
+  const headerLines: string[] = []
+  let header: OpenSignalsHeader | null = null
+  let assembler: ReturnType<typeof createSampleAssembler> | null = null
+  let requiredColumns = 0
+  let sequenceColumn = -1
+
+  const startData = (firstRow: string | null) => {
+    const parsed = parseOpenSignalsHeader(headerLines).header
+    if (parsed.channels.length === 0) {
+      applyLegacyLayout(parsed, firstRow)
+    }
+    header = parsed
+    assembler = createSampleAssembler(parsed, fillGaps)
+    requiredColumns = Math.max(0, ...parsed.channels.map((channel) => channel.columnIndex + 1))
+    sequenceColumn = getSequenceColumnIndex(parsed.devices[0])
+    return assembler
+  }
+
+  const pushLine = (rawLine: string) => {
+    const line = rawLine.trim()
+    if (!line) return
+
+    if (!assembler && line.startsWith("#")) {
+      headerLines.push(line)
+      return
+    }
+    if (line.startsWith("#")) return
+
+    const target = assembler ?? startData(line)
+    const values = line.split(/\s+/)
+    if (values.length < requiredColumns) return
+
+    target.push(
+      sequenceColumn >= 0 ? parseInt(values[sequenceColumn], 10) : null,
+      (channel) => parseFloat(values[channel.columnIndex]) || 0,
+      (auxiliary) => parseFloat(values[auxiliary.columnIndex]) || 0
+    )
+  }
+
+  const finish = (): ParsedOpenSignalsFile => {
+    const target = assembler ?? startData(null)
+    const { columns, gaps } = target.finish()
+    return { header: header!, columns, gaps }
+  }
+
+  return {
+    pushLine,
+    finish,
+    get rowCount() {
+      return assembler?.length ?? 0
+    },
+  }
+}
+
+export function parseOpenSignalsText(text: string, options: ParseOptions = {}): ParsedOpenSignalsFile {
+  const parser = createOpenSignalsLineParser(options)
+  for (const line of text.split("\n")) {
+    parser.pushLine(line)
+  }
+  return parser.finish()
+}
+
+export function groupChannelsByDevice(channels: ChannelInfo[]): { deviceId: string | null; channels: ChannelInfo[] }[] {
+  const groups: { deviceId: string | null; channels: ChannelInfo[] }[] = []
+  for (const channel of channels) {
+    const group = groups.find((g) => g.deviceId === channel.deviceId)
+    if (group) {
+      group.channels.push(channel)
+    } else {
+      groups.push({ deviceId: channel.deviceId, channels: [channel] })
+    }
+  }
+  return groups
+}
+
+// Fallback for recordings restored without their device layout (e.g. older saved sessions)
+function buildDevicesFromChannels(channels: ChannelInfo[]): OpenSignalsDevice[] {
+  let columnOffset = 0
+  return groupChannelsByDevice(channels).map((group, position) => {
+    const columns = [...LEGACY_DIGITAL_COLUMNS, ...group.channels.map((channel) => channel.columnName)]
+    const device = { deviceId: group.deviceId ?? "", position, columnOffset, columns, header: {} }
+    columnOffset += columns.length
+    return device
+  })
+}
+
+function describeDevice(device: OpenSignalsDevice, channels: ChannelInfo[], samplingRate: number) {
+  return {
+    "position": device.position,
+    "sampling rate": samplingRate,
+    "resolution": device.columns.map(
+      (column, idx) =>
+        channels.find((channel) => channel.columnIndex === device.columnOffset + idx)?.resolution ??
+        (column === "nSeq" ? 4 : 1)
+    ),
+    "channels": channels.map((channel) => channel.channel),
+    "sensor": channels.map((channel) => channel.sensor),
+    "label": channels.map((channel) => channel.label),
+    "column": device.columns,
+  }
+}
+
+// Same spacing as the header OpenSignals writes, so untouched fields stay byte-identical
+function stringifyHeaderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stringifyHeaderValue).join(", ")}]`
+  }
+  if (value !== null && typeof value === "object") {
+    const fields = Object.entries(value).filter(([, fieldValue]) => fieldValue !== undefined)
+    return `{${fields.map(([key, fieldValue]) => `${JSON.stringify(key)}: ${stringifyHeaderValue(fieldValue)}`).join(", ")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+function formatSampleValue(value: number): string {
+  // ADC samples are integers; anything else came from a float source and is trimmed to float32 precision
+  return Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(7)))
+}
+
+export function serializeOpenSignalsText({
+  startTimestampMs,
+  channels,
+  devices,
+  store,
+}: {
+  startTimestampMs: number
+  channels: ChannelInfo[]
+  devices?: OpenSignalsDevice[]
+  store: SignalStore
+}): string {
+  const lines: string[] = []
+  const exportDate = new Date(startTimestampMs)
+  const dateOnly = formatLocalDate(exportDate)
+  const timeOnly = formatLocalTimeWithMs(exportDate)
+  const exportDevices = devices && devices.length > 0 ? devices : buildDevicesFromChannels(channels)
+
+  const headerObj: Record<string, object> = {}
+  const columnReaders = exportDevices.map((device) => {
+    const deviceChannels = channels.filter(
+      (channel) =>
+        channel.columnIndex >= device.columnOffset &&
+        channel.columnIndex < device.columnOffset + device.columns.length
+    )
+    const originalHeader = Object.keys(device.header).length > 0
+      ? device.header
+      : describeDevice(device, deviceChannels, store.samplingRate)
+    // Only the start moves after a crop; every other header field is the recording's own
+    headerObj[device.deviceId || "DEVICE_UNKNOWN"] = { ...originalHeader, date: dateOnly, time: timeOnly }
+
+    return device.columns.map((column, idx): ((index: number) => number) => {
+      const channel = deviceChannels.find((candidate) => candidate.columnIndex === device.columnOffset + idx)
+      if (channel) return (index) => getSampleValue(store, channel.key, index)
+      const auxiliary = store.auxiliary?.[getAuxiliaryColumnKey(device.deviceId, column)]
+      if (auxiliary) return (index) => auxiliary[index]
+      if (column === "nSeq") return (index) => (store.sourceOffset + index) % NSEQ_MODULO
+      return () => 0
+    })
+  })
+
+  lines.push("# OpenSignals Text File Format. Version 1")
+  lines.push(`# ${stringifyHeaderValue(headerObj)}`)
+  lines.push("# EndOfHeader")
+
+  for (let i = 0; i < store.length; i++) {
+    // Gap-filled samples were never recorded; leaving them out keeps the nSeq jump visible
+    if (channels.some((channel) => Number.isNaN(getSampleValue(store, channel.key, i)))) continue
+    let row = ""
+    for (const readers of columnReaders) {
+      for (const read of readers) {
+        row += `${formatSampleValue(read(i))}\t`
+      }
+    }
+    lines.push(row)
+  }
+
+  return lines.join("\n") + "\n"
+}
@@ -0,0 +1,199 @@
+import type { Dataset, Group } from "jsfive"
+import type { ChannelInfo } from "./types"
+import {
+  buildChannelMap,
+  createSampleAssembler,
+  getAuxiliaryColumnKey,
+  getDeviceKeySuffix,
+  parseStartTimestamp,
+  type OpenSignalsDeviceHeader,
+  type OpenSignalsHeader,
+  type ParseOptions,
+  type ParsedOpenSignalsFile,
+} from "./opensignals"
+
+const DIGITAL_COLUMN_RESOLUTIONS = [4, 1, 1, 1, 1]
+// Digital IO datasets as OpenSignals names them, in text column order
+const DIGITAL_DATASETS: Record<string, string> = { I1: "digital_1", I2: "digital_2", O1: "digital_3", O2: "digital_4" }
+
+function toNumberArray(value: unknown): number[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "number") return [value]
+  if (typeof value === "object" && "length" in (value as ArrayLike<unknown>)) {
+    return Array.from(value as ArrayLike<unknown>, (item) => Number(item))
+  }
+  return undefined
+}
+
+function toStringArray(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "string") {
+    // Some OpenSignals versions store list attributes as JSON text
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed.map(String) : [value]
+    } catch {
+      return [value]
+    }
+  }
+  if (typeof value === "object" && "length" in (value as ArrayLike<unknown>)) {
+    return Array.from(value as ArrayLike<unknown>, (item) => String(item))
+  }
+  return undefined
+}
+
+function toScalar(value: unknown): unknown {
+  return Array.isArray(value) || ArrayBuffer.isView(value) ? (value as ArrayLike<unknown>)[0] : value
+}
+
+// Plain JSON form of the HDF5 attributes so they can be written back as a text header
+function toHeaderObject(attrs: Record<string, unknown>): Record<string, unknown> {
+  const header: Record<string, unknown> = {}
+  for (const [name, value] of Object.entries(attrs)) {
+    if (typeof value === "bigint") {
+      header[name] = Number(value)
+    } else if (ArrayBuffer.isView(value) || Array.isArray(value)) {
+      header[name] = Array.from(value as ArrayLike<unknown>, (item) => (typeof item === "bigint" ? Number(item) : item))
+    } else {
+      header[name] = value
+    }
+  }
+  return header
+}
+
+function readDeviceHeader(attrs: Record<string, unknown>, position: number): OpenSignalsDeviceHeader {
+  const channels = toNumberArray(attrs["channels"])
+  let resolution = toNumberArray(attrs["resolution"])
+  // HDF5 stores one resolution per analog channel; the text header also covers nSeq and digital IO
+  if (resolution && channels && resolution.length === channels.length) {
+    resolution = [...DIGITAL_COLUMN_RESOLUTIONS, ...resolution]
+  }
+  const samplingRate = Number(toScalar(attrs["sampling rate"]))
+  const storedPosition = Number(toScalar(attrs["position"]))
+
+  return {
+    position: Number.isFinite(storedPosition) ? storedPosition : position,
+    "sampling rate": Number.isFinite(samplingRate) && samplingRate > 0 ? samplingRate : undefined,
+    date: toScalar(attrs["date"]) as string | undefined,
+    time: toScalar(attrs["time"]) as string | undefined,
+    resolution,
+    channels,
+    sensor: toStringArray(attrs["sensor"]),
+    label: toStringArray(attrs["label"]),
+    column: toStringArray(attrs["column"]),
+  }
+}
+
+function readDataset(group: Group, paths: string[]): ArrayLike<number> | null {
+  for (const path of paths) {
+    try {
+      const dataset = group.get(path) as Dataset | undefined
+      if (dataset && "value" in dataset) {
+        return dataset.value
+      }
+    } catch {
+      // Try the next naming convention
+    }
+  }
+  return null
+}
+
+export async function parseOpenSignalsH5(
+  buffer: ArrayBuffer,
+  filename: string,
+  { fillGaps = true }: ParseOptions = {}
+): Promise<ParsedOpenSignalsFile> {
+  const hdf5 = await import("jsfive")
+  const file = new hdf5.File(buffer, filename)
+
+  const header: OpenSignalsHeader = {
+    deviceId: null,
+    samplingRate: 1000,
+    startTimestampMs: null,
+    devices: [],
+    channels: [],
+  }
+
+  // Every top-level group is one device, keyed by its MAC address like the text header
+  const deviceEntries = file.keys
+    .map((deviceId, idx) => {
+      const group = file.get(deviceId) as Group
+      const attrs = group.attrs ?? {}
+      return { deviceId, group, attrs, deviceInfo: readDeviceHeader(attrs, idx) }
+    })
+    .filter(({ group }) => Array.isArray(group.keys))
+    .sort((a, b) => (a.deviceInfo.position ?? 0) - (b.deviceInfo.position ?? 0))
+
+  if (deviceEntries.length === 0) {
+    throw new Error("No OpenSignals device groups found in HDF5 file")
+  }
+
+  const isMultiDevice = deviceEntries.length > 1
+  const usedKeys = new Set<string>()
+  const channelData = new Map<ChannelInfo, ArrayLike<number>>()
+  const auxiliaryData = new Map<string, ArrayLike<number>>()
+  let columnOffset = 0
+  let sampleCount = Number.POSITIVE_INFINITY
+
+  for (const { deviceId, group, attrs, deviceInfo } of deviceEntries) {
+    const { columns, channels } = buildChannelMap(deviceInfo, {
+      deviceId,
+      columnOffset,
+      usedKeys,
+      keySuffix: isMultiDevice ? getDeviceKeySuffix(deviceId) : undefined,
+    })
+
+    for (const channel of channels) {
+      const values = readDataset(group, [`raw/channel_${channel.channel}`, `raw/${channel.columnName}`])
+      if (!values) continue
+      channelData.set(channel, values)
+      sampleCount = Math.min(sampleCount, values.length)
+      header.channels.push(channel)
+    }
+
+    columns.forEach((column, idx) => {
+      if (channels.some((channel) => channel.columnIndex === columnOffset + idx)) return
+      const paths = column === "nSeq"
+        ? ["raw/nSeq"]
+        : [`raw/digital/${DIGITAL_DATASETS[column] ?? column}`, `raw/${column}`]
+      const values = readDataset(group, paths)
+      if (values) auxiliaryData.set(getAuxiliaryColumnKey(deviceId, column), values)
+    })
+
+    header.devices.push({
+      deviceId,
+      position: deviceInfo.position ?? 0,
+      columnOffset,
+      columns,
+      header: { ...toHeaderObject(attrs), ...deviceInfo },
+    })
+    columnOffset += columns.length
+  }
+
+  const primary = deviceEntries[0]
+  header.deviceId = primary.deviceId
+  header.samplingRate = primary.deviceInfo["sampling rate"] ?? header.samplingRate
+  header.startTimestampMs = parseStartTimestamp(primary.deviceInfo)
+
+  if (!Number.isFinite(sampleCount)) {
+    sampleCount = 0
+  }
+
+  const sequence = readDataset(primary.group, ["raw/nSeq"])
+  const assembler = createSampleAssembler(header, fillGaps, sampleCount)
+
+  for (let i = 0; i < sampleCount; i++) {
+    assembler.push(
+      sequence ? Number(sequence[i]) : null,
+      (channel) => Number(channelData.get(channel)?.[i]) || 0,
+      (auxiliary) => Number(auxiliaryData.get(auxiliary.key)?.[i]) || 0
+    )
+  }
+
+  const { columns, gaps } = assembler.finish()
+  return { header, columns, gaps }
+}
+
+export function isH5File(file: File): boolean {
+  return /\.(h5|hdf5)$/i.test(file.name)
+}
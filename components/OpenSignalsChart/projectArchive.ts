@@ -0,0 +1,288 @@
+import type {
+  ChannelInfo,
+  ChannelKey,
+  EditLogEntry,
+  LabelDefinition,
+  LabelSegment,
+  OpenSignalsDevice,
+  SavedSignal,
+  SessionDraft,
+  SessionSourceFiles,
+  SignalGap,
+  SignalStore,
+} from "./types"
+import { compactSignalColumns } from "./signalStore"
+import { createZip, readZip, type ZipEntry } from "./zip"
+
+const PROJECT_FORMAT = "oculy-project"
+const PROJECT_FORMAT_VERSION = 1
+const MANIFEST_PATH = "manifest.json"
+const LABELS_PATH = "labels.json"
+const EDIT_LOG_PATH = "edit-log.json"
+
+// Set from package.json in next.config.ts
+export const APP_VERSION: string = process.env.APP_VERSION ?? "unknown"
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT
+  formatVersion: number
+  appVersion: string
+  createdAt: string
+  name: string
+  sourceFiles: SessionSourceFiles
+  crop: {
+    // Samples removed from the start of the original recording
+    offsetSamples: number
+    offsetSeconds: number
+  }
+  signal: {
+    encoding: "float32le"
+    length: number
+    samplingRate: number
+    startTime: number
+    startTimestampMs: number | null
+    deviceId: string | null
+    devices: OpenSignalsDevice[]
+    fillGaps: boolean
+    gaps: SignalGap[]
+    channels: ChannelInfo[]
+    columns: Record<ChannelKey, string>
+    auxiliaryColumns: Record<string, string>
+  }
+  labels: {
+    path: string
+    // Label names found in the data
+    schema: string[]
+    // The session's label schema; absent in projects saved before schemas
+    definitions?: LabelDefinition[]
+    keypressStartTimestampMs: number | null
+    keypressSamplingRate: number
+    // Correction already applied to the label times to match the signal clock
+    clockOffsetMs: number
+    clockDriftPpm: number
+  }
+  view: {
+    visibleChannels: ChannelKey[]
+    domain: [number, number] | null
+  }
+  editLogPath: string
+  // Plain-text copies for tools that read OpenSignals and keypress files directly
+  interchangeFiles: string[]
+  files: Record<string, { sha256: string; bytes: number }>
+}
+
+export interface ProjectContents {
+  manifest: ProjectManifest
+  session: SessionDraft
+  signal: Omit<SavedSignal, "id">
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export async function sha256Hex(data: Uint8Array<ArrayBuffer> | ArrayBuffer): Promise<string> {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    throw new Error("Hashing requires a secure (https or localhost) page")
+  }
+  return toHex(await crypto.subtle.digest("SHA-256", data))
+}
+
+export async function hashFile(file: File): Promise<string | undefined> {
+  try {
+    return await sha256Hex(await file.arrayBuffer())
+  } catch (err) {
+    console.warn("Could not hash source file:", err)
+    return undefined
+  }
+}
+
+function getColumnPath(channel: ChannelKey): string {
+  return `signal/${encodeURIComponent(channel)}.f32`
+}
+
+function getAuxiliaryColumnPath(key: string): string {
+  return `signal/auxiliary/${encodeURIComponent(key)}.f32`
+}
+
+function encodeColumn(values: Float32Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(values.length * 4)
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i < values.length; i++) {
+    view.setFloat32(i * 4, values[i], true)
+  }
+  return bytes
+}
+
+function decodeColumn(bytes: Uint8Array, length: number): Float32Array {
+  if (bytes.length !== length * 4) {
+    throw new Error("Signal column length does not match the project manifest")
+  }
+  const values = new Float32Array(length)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  for (let i = 0; i < length; i++) {
+    values[i] = view.getFloat32(i * 4, true)
+  }
+  return values
+}
+
+export async function buildProjectArchive({
+  session,
+  store,
+  interchangeFiles = [],
+}: {
+  session: SessionDraft
+  store: SignalStore
+  interchangeFiles?: { path: string; content: string }[]
+}): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const columns = compactSignalColumns(store)
+  const entries: ZipEntry[] = []
+  const columnPaths: Record<ChannelKey, string> = {}
+
+  for (const channel of session.channels) {
+    const values = columns.channels[channel.key]
+    if (!values) continue
+    columnPaths[channel.key] = getColumnPath(channel.key)
+    entries.push({ path: columnPaths[channel.key], data: encodeColumn(values) })
+  }
+
+  const auxiliaryPaths: Record<string, string> = {}
+  for (const [key, values] of Object.entries(columns.auxiliary ?? {})) {
+    auxiliaryPaths[key] = getAuxiliaryColumnPath(key)
+    entries.push({ path: auxiliaryPaths[key], data: encodeColumn(values) })
+  }
+
+  const editLog: EditLogEntry[] = session.editLog ?? []
+  entries.push({ path: LABELS_PATH, data: encoder.encode(JSON.stringify(session.labelSegments, null, 2)) })
+  entries.push({ path: EDIT_LOG_PATH, data: encoder.encode(JSON.stringify(editLog, null, 2)) })
+  for (const file of interchangeFiles) {
+    entries.push({ path: file.path, data: encoder.encode(file.content) })
+  }
+
+  const files: ProjectManifest["files"] = {}
+  for (const entry of entries) {
+    files[entry.path] = { sha256: await sha256Hex(entry.data), bytes: entry.data.length }
+  }
+
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    formatVersion: PROJECT_FORMAT_VERSION,
+    appVersion: APP_VERSION,
+    createdAt: new Date().toISOString(),
+    name: session.name,
+    sourceFiles: session.sourceFiles,
+    crop: {
+      offsetSamples: session.cropOffsetSamples,
+      offsetSeconds: session.cropOffsetSamples / session.samplingRate,
+    },
+    signal: {
+      encoding: "float32le",
+      length: columns.length,
+      samplingRate: session.samplingRate,
+      startTime: store.startTime,
+      startTimestampMs: session.signalStartTimestampMs,
+      deviceId: session.deviceId,
+      devices: session.devices ?? [],
+      fillGaps: session.fillGaps,
+      gaps: session.signalGaps,
+      channels: session.channels,
+      columns: columnPaths,
+      auxiliaryColumns: auxiliaryPaths,
+    },
+    labels: {
+      path: LABELS_PATH,
+      schema: Array.from(new Set(session.labelSegments.map((segment) => segment.label))).sort(),
+      definitions: session.labelSchema,
+      keypressStartTimestampMs: session.keypressStartTimestampMs,
+      keypressSamplingRate: session.keypressSamplingRate,
+      clockOffsetMs: session.clockOffsetMs ?? 0,
+      clockDriftPpm: session.clockDriftPpm ?? 0,
+    },
+    view: {
+      visibleChannels: session.visibleChannels,
+      domain: session.viewDomain,
+    },
+    editLogPath: EDIT_LOG_PATH,
+    interchangeFiles: interchangeFiles.map((file) => file.path),
+    files,
+  }
+
+  return createZip([{ path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) }, ...entries])
+}
+
+export async function readProjectArchive(file: File): Promise<ProjectContents> {
+  const files = await readZip(await file.arrayBuffer())
+  const decoder = new TextDecoder()
+  const manifestBytes = files.get(MANIFEST_PATH)
+  if (!manifestBytes) {
+    throw new Error("Project archive is missing its manifest")
+  }
+
+  const manifest = JSON.parse(decoder.decode(manifestBytes)) as ProjectManifest
+  if (manifest.format !== PROJECT_FORMAT) {
+    throw new Error("Not an Oculy project archive")
+  }
+  if (manifest.formatVersion > PROJECT_FORMAT_VERSION) {
+    throw new Error(`Project was saved by a newer version (${manifest.appVersion}); please update the app`)
+  }
+
+  const readEntry = async (path: string) => {
+    const data = files.get(path)
+    if (!data) {
+      throw new Error(`Project archive is missing ${path}`)
+    }
+    const expected = manifest.files[path]
+    if (expected && (await sha256Hex(data)) !== expected.sha256) {
+      throw new Error(`Project file ${path} is corrupted (hash mismatch)`)
+    }
+    return data
+  }
+
+  const channels: Record<ChannelKey, Float32Array> = {}
+  for (const [channel, path] of Object.entries(manifest.signal.columns)) {
+    channels[channel] = decodeColumn(await readEntry(path), manifest.signal.length)
+  }
+  const auxiliary: Record<string, Float32Array> = {}
+  for (const [key, path] of Object.entries(manifest.signal.auxiliaryColumns ?? {})) {
+    auxiliary[key] = decodeColumn(await readEntry(path), manifest.signal.length)
+  }
+
+  const labelSegments = JSON.parse(decoder.decode(await readEntry(manifest.labels.path))) as LabelSegment[]
+  const editLog = JSON.parse(decoder.decode(await readEntry(manifest.editLogPath))) as EditLogEntry[]
+
+  const session: SessionDraft = {
+    name: manifest.name,
+    sourceFiles: manifest.sourceFiles,
+    channels: manifest.signal.channels,
+    visibleChannels: manifest.view.visibleChannels,
+    labelSegments,
+    signalGaps: manifest.signal.gaps,
+    fillGaps: manifest.signal.fillGaps,
+    samplingRate: manifest.signal.samplingRate,
+    deviceId: manifest.signal.deviceId,
+    devices: manifest.signal.devices ?? [],
+    labelSchema: manifest.labels.definitions,
+    signalStartTimestampMs: manifest.signal.startTimestampMs,
+    keypressStartTimestampMs: manifest.labels.keypressStartTimestampMs,
+    keypressSamplingRate: manifest.labels.keypressSamplingRate,
+    clockOffsetMs: manifest.labels.clockOffsetMs ?? 0,
+    clockDriftPpm: manifest.labels.clockDriftPpm ?? 0,
+    cropOffsetSamples: manifest.crop.offsetSamples,
+    viewDomain: manifest.view.domain,
+    editLog,
+  }
+
+  return {
+    manifest,
+    session,
+    signal: {
+      columns: { length: manifest.signal.length, channels, auxiliary },
+      startTime: manifest.signal.startTime,
+    },
+  }
+}
+
+export function isProjectFile(file: File): boolean {
+  return /\.zip$/i.test(file.name)
+}
@@ -0,0 +1,32 @@
+import type { ChannelInfo, LabelSegment, SignalStore } from "./types"
+import { getSampleRangeForTimes } from "./signalStore"
+import { toPhysical } from "./units"
+
+export interface SegmentStats {
+  mean: number
+  peakToPeak: number
+}
+
+// Mean and peak-to-peak of one channel over each segment, in the channel's physical unit.
+// Dropped samples are skipped; a segment with no samples left gets NaN for both
+export function computeSegmentStats(store: SignalStore, segments: LabelSegment[], channel: ChannelInfo): SegmentStats[] {
+  const values = store.channels[channel.key]
+  return segments.map((segment) => {
+    if (!values) return { mean: NaN, peakToPeak: NaN }
+    const [startIndex, endIndex] = getSampleRangeForTimes(store, segment.start, segment.end)
+    let sum = 0
+    let count = 0
+    let min = Number.POSITIVE_INFINITY
+    let max = Number.NEGATIVE_INFINITY
+    for (let i = startIndex; i < endIndex; i++) {
+      const raw = values[i]
+      if (Number.isNaN(raw)) continue
+      const value = toPhysical(raw, channel)
+      sum += value
+      count++
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    return count === 0 ? { mean: NaN, peakToPeak: NaN } : { mean: sum / count, peakToPeak: max - min }
+  })
+}
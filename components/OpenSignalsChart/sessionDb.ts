@@ -0,0 +1,92 @@
+import type { SavedSession, SavedSignal } from "./types"
+
+const DB_NAME = "oculy-sessions"
+const DB_VERSION = 1
+const SESSION_STORE = "sessions"
+const SIGNAL_STORE = "signals"
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openSessionDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"))
+  }
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: "id" })
+      }
+      if (!db.objectStoreNames.contains(SIGNAL_STORE)) {
+        db.createObjectStore(SIGNAL_STORE, { keyPath: "id" })
+      }
+    }
+    dbPromise = requestToPromise(request).catch((err) => {
+      dbPromise = null
+      throw err
+    })
+  }
+  return dbPromise
+}
+
+export async function saveSession(session: SavedSession, signal?: SavedSignal): Promise<void> {
+  const db = await openSessionDb()
+  const transaction = db.transaction([SESSION_STORE, SIGNAL_STORE], "readwrite")
+  transaction.objectStore(SESSION_STORE).put(session)
+  if (signal) {
+    transaction.objectStore(SIGNAL_STORE).put(signal)
+  }
+  await transactionDone(transaction)
+}
+
+export async function listSessions(): Promise<SavedSession[]> {
+  const db = await openSessionDb()
+  const sessions = await requestToPromise<SavedSession[]>(
+    db.transaction(SESSION_STORE).objectStore(SESSION_STORE).getAll()
+  )
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function loadSession(
+  id: string
+): Promise<{ session: SavedSession; signal: SavedSignal } | null> {
+  const db = await openSessionDb()
+  const transaction = db.transaction([SESSION_STORE, SIGNAL_STORE])
+  const [session, signal] = await Promise.all([
+    requestToPromise<SavedSession | undefined>(transaction.objectStore(SESSION_STORE).get(id)),
+    requestToPromise<SavedSignal | undefined>(transaction.objectStore(SIGNAL_STORE).get(id)),
+  ])
+  return session && signal ? { session, signal } : null
+}
+
+// Deletes the least recently updated sessions so that at most `keep` remain besides `exceptId`
+export async function pruneSessions(keep: number, exceptId: string): Promise<void> {
+  const sessions = (await listSessions()).filter((session) => session.id !== exceptId)
+  for (const session of sessions.slice(keep)) {
+    await deleteSession(session.id)
+  }
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  const db = await openSessionDb()
+  const transaction = db.transaction([SESSION_STORE, SIGNAL_STORE], "readwrite")
+  transaction.objectStore(SESSION_STORE).delete(id)
+  transaction.objectStore(SIGNAL_STORE).delete(id)
+  await transactionDone(transaction)
+}
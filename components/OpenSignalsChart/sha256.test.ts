@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { createSha256 } from "./sha256"
+
+function hashChunks(chunks: Uint8Array[]) {
+  const hash = createSha256()
+  chunks.forEach((chunk) => hash.update(chunk))
+  return hash.digest()
+}
+
+describe("createSha256", () => {
+  it("matches the standard test vectors", () => {
+    const encoder = new TextEncoder()
+
+    expect(hashChunks([])).toBe("e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855")
+    expect(hashChunks([encoder.encode("abc")])).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    )
+    expect(hashChunks([encoder.encode("abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq")])).toBe(
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1"
+    )
+  })
+
+  it("gives the same digest however the input is split into chunks", async () => {
+    const data = Uint8Array.from({ length: 10_000 }, (_, i) => (i * 7919) % 251)
+    const expected = Array.from(new Uint8Array(await crypto.subtle.digest("SHA-256", data)), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("")
+
+    expect(hashChunks([data])).toBe(expected)
+    // Chunk sizes that cross block boundaries at every offset
+    const chunks: Uint8Array[] = []
+    for (let offset = 0, size = 1; offset < data.length; offset += size, size = (size % 131) + 1) {
+      chunks.push(data.subarray(offset, offset + size))
+    }
+    expect(hashChunks(chunks)).toBe(expected)
+  })
+})
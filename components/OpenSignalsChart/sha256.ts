@@ -0,0 +1,106 @@
+// Incremental SHA-256, so large files can be hashed chunk by chunk as they stream in;
+// crypto.subtle.digest only takes the whole input at once
+
+export interface Sha256 {
+  update: (data: Uint8Array) => void
+  // Hex digest of everything passed to update
+  digest: () => string
+}
+
+const ROUND_CONSTANTS = Uint32Array.from([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+  0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+  0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+  0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+  0xc67178f2,
+])
+
+const INITIAL_STATE = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]
+
+const BLOCK_BYTES = 64
+
+const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits))
+
+export function createSha256(): Sha256 {
+  const state = Uint32Array.from(INITIAL_STATE)
+  const words = new Uint32Array(64)
+  const block = new Uint8Array(BLOCK_BYTES)
+  let blockLength = 0
+  let totalBytes = 0
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const at = offset + i * 4
+      words[i] = (data[at] << 24) | (data[at + 1] << 16) | (data[at + 2] << 8) | data[at + 3]
+    }
+    for (let i = 16; i < 64; i++) {
+      const w15 = words[i - 15]
+      const w2 = words[i - 2]
+      const s0 = rotate(w15, 7) ^ rotate(w15, 18) ^ (w15 >>> 3)
+      const s1 = rotate(w2, 17) ^ rotate(w2, 19) ^ (w2 >>> 10)
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0
+    }
+
+    let [a, b, c, d, e, f, g, h] = state
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25)
+      const choice = (e & f) ^ (~e & g)
+      const t1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0
+      const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22)
+      const majority = (a & b) ^ (a & c) ^ (b & c)
+      const t2 = (s0 + majority) | 0
+      h = g
+      g = f
+      f = e
+      e = (d + t1) | 0
+      d = c
+      c = b
+      b = a
+      a = (t1 + t2) | 0
+    }
+    state[0] += a
+    state[1] += b
+    state[2] += c
+    state[3] += d
+    state[4] += e
+    state[5] += f
+    state[6] += g
+    state[7] += h
+  }
+
+  const update = (data: Uint8Array) => {
+    totalBytes += data.length
+    let offset = 0
+    if (blockLength > 0) {
+      const take = Math.min(BLOCK_BYTES - blockLength, data.length)
+      block.set(data.subarray(0, take), blockLength)
+      blockLength += take
+      offset = take
+      if (blockLength < BLOCK_BYTES) return
+      compress(block, 0)
+      blockLength = 0
+    }
+    for (; offset + BLOCK_BYTES <= data.length; offset += BLOCK_BYTES) {
+      compress(data, offset)
+    }
+    block.set(data.subarray(offset), 0)
+    blockLength = data.length - offset
+  }
+
+  const digest = () => {
+    // Padding: a one bit, zeros, then the message length in bits as a 64-bit big-endian number
+    const bitLength = totalBytes * 8
+    const padding = new Uint8Array((blockLength < 56 ? 56 : 120) - blockLength + 8)
+    padding[0] = 0x80
+    const view = new DataView(padding.buffer)
+    view.setUint32(padding.length - 8, Math.floor(bitLength / 2 ** 32))
+    view.setUint32(padding.length - 4, bitLength >>> 0)
+    update(padding)
+    return Array.from(state, (word) => word.toString(16).padStart(8, "0")).join("")
+  }
+
+  return { update, digest }
+}
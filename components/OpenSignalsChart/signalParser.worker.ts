@@ -0,0 +1,96 @@
+import { createOpenSignalsLineParser, type ParsedOpenSignalsFile } from "./opensignals"
+import { isH5File, parseOpenSignalsH5 } from "./opensignalsH5"
+import { isEdfFile, parseEdf } from "./edf"
+import { createSha256 } from "./sha256"
+import type { ParseProgress } from "./types"
+
+export interface ParseRequest {
+  type: "parse"
+  file: File
+  fillGaps: boolean
+}
+
+export type ParseResponse =
+  | ({ type: "progress" } & ParseProgress)
+  | { type: "result"; result: ParsedOpenSignalsFile; sha256: string }
+  | { type: "error"; message: string }
+
+const PROGRESS_INTERVAL_MS = 100
+
+function post(message: ParseResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer })
+}
+
+function hashBuffer(buffer: ArrayBuffer): string {
+  const hash = createSha256()
+  hash.update(new Uint8Array(buffer))
+  return hash.digest()
+}
+
+// Hashes the chunks as they are parsed, so the file is never held in memory whole
+async function parseTextStream(
+  file: File,
+  fillGaps: boolean
+): Promise<{ result: ParsedOpenSignalsFile; sha256: string }> {
+  const parser = createOpenSignalsLineParser({ fillGaps })
+  const hash = createSha256()
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder()
+  let bytesRead = 0
+  let remainder = ""
+  let lastProgressAt = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    bytesRead += value.byteLength
+    hash.update(value)
+    const lines = (remainder + decoder.decode(value, { stream: true })).split("\n")
+    // The last piece may be a partial line; keep it for the next chunk
+    remainder = lines.pop() ?? ""
+    for (const line of lines) {
+      parser.pushLine(line)
+    }
+
+    const now = Date.now()
+    if (now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+      lastProgressAt = now
+      post({ type: "progress", bytesRead, totalBytes: file.size, rowsParsed: parser.rowCount })
+    }
+  }
+
+  parser.pushLine(remainder + decoder.decode())
+  return { result: parser.finish(), sha256: hash.digest() }
+}
+
+self.addEventListener("message", async (event: MessageEvent<ParseRequest>) => {
+  const { file, fillGaps } = event.data
+  try {
+    let result: ParsedOpenSignalsFile
+    let sha256: string
+    if (isH5File(file)) {
+      // HDF5 needs random access, so the whole file is read before parsing
+      const buffer = await file.arrayBuffer()
+      post({ type: "progress", bytesRead: file.size, totalBytes: file.size, rowsParsed: 0 })
+      sha256 = hashBuffer(buffer)
+      result = await parseOpenSignalsH5(buffer, file.name, { fillGaps })
+    } else if (isEdfFile(file)) {
+      const buffer = await file.arrayBuffer()
+      post({ type: "progress", bytesRead: file.size, totalBytes: file.size, rowsParsed: 0 })
+      sha256 = hashBuffer(buffer)
+      result = parseEdf(buffer)
+    } else {
+      const parsed = await parseTextStream(file, fillGaps)
+      result = parsed.result
+      sha256 = parsed.sha256
+    }
+
+    const { columns } = result
+    post({ type: "progress", bytesRead: file.size, totalBytes: file.size, rowsParsed: columns.length })
+    const buffers = [...Object.values(columns.channels), ...Object.values(columns.auxiliary ?? {})]
+    post({ type: "result", result, sha256 }, buffers.map((values) => values.buffer))
+  } catch (err) {
+    post({ type: "error", message: err instanceof Error ? err.message : "Unknown error" })
+  }
+})
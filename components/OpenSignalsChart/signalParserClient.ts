@@ -0,0 +1,67 @@
+import type { ParsedOpenSignalsFile, ParseOptions } from "./opensignals"
+import type { ParseProgress } from "./types"
+import type { ParseRequest, ParseResponse } from "./signalParser.worker"
+
+export interface ParsedSignalFile extends ParsedOpenSignalsFile {
+  // SHA-256 of the file's bytes, computed while parsing
+  sha256: string
+}
+
+interface WorkerParseOptions extends ParseOptions {
+  onProgress?: (progress: ParseProgress) => void
+  signal?: AbortSignal
+}
+
+// Parses a signal file off the main thread; aborting the signal terminates the worker
+export function parseSignalFileInWorker(
+  file: File,
+  { fillGaps = true, onProgress, signal }: WorkerParseOptions = {}
+): Promise<ParsedSignalFile> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Loading cancelled", "AbortError"))
+      return
+    }
+
+    const worker = new Worker(new URL("./signalParser.worker.ts", import.meta.url), {
+      type: "module",
+    })
+
+    const cleanup = () => {
+      worker.terminate()
+      signal?.removeEventListener("abort", handleAbort)
+    }
+
+    const handleAbort = () => {
+      cleanup()
+      reject(new DOMException("Loading cancelled", "AbortError"))
+    }
+
+    signal?.addEventListener("abort", handleAbort)
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const message = event.data
+      if (message.type === "progress") {
+        onProgress?.({
+          bytesRead: message.bytesRead,
+          totalBytes: message.totalBytes,
+          rowsParsed: message.rowsParsed,
+        })
+      } else if (message.type === "result") {
+        cleanup()
+        resolve({ ...message.result, sha256: message.sha256 })
+      } else {
+        cleanup()
+        reject(new Error(message.message))
+      }
+    }
+
+    worker.onerror = (event) => {
+      cleanup()
+      reject(new Error(event.message || "Failed to parse signal file"))
+    }
+
+    const request: ParseRequest = { type: "parse", file, fillGaps }
+    worker.postMessage(request)
+  })
+}
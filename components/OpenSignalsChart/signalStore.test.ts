@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest"
+import {
+  compactSignalColumns,
+  createSignalStore,
+  downsampleSignalStore,
+  getSampleIndexAtTime,
+  getSampleRangeForTimes,
+  getTimeRange,
+  getViewportPoints,
+  sliceSignalStore,
+} from "./signalStore"
+
+function storeOf(values: number[], samplingRate = 10, startTime = 0) {
+  return createSignalStore({ length: values.length, channels: { A1: Float32Array.from(values) } }, samplingRate, startTime)
+}
+
+describe("downsampleSignalStore", () => {
+  it("returns every sample when there are no more than two per bucket", () => {
+    const store = storeOf([1, 2, 3, 4], 10, 5)
+
+    expect(downsampleSignalStore(store, ["A1"], 0, 4, 2)).toEqual([
+      { timestamp: 5, A1: 1 },
+      { timestamp: 5.1, A1: 2 },
+      { timestamp: 5.2, A1: 3 },
+      { timestamp: 5.3, A1: 4 },
+    ])
+  })
+
+  it("keeps each bucket's min and max in the order they occur, at the bucket's first and last time", () => {
+    const store = storeOf([0, 9, 1, 2, 2, 2, 8, -3, 5, 6, 4, 7])
+    const points = downsampleSignalStore(store, ["A1"], 0, 12, 2)
+
+    expect(points.map((point) => point.A1)).toEqual([0, 9, 8, -3])
+    expect(points.map((point) => point.timestamp)).toEqual([0, 0.5, 0.6, 1.1])
+  })
+
+  it("spreads an uneven sample count over the buckets without dropping samples", () => {
+    const values = Array.from({ length: 10 }, (_, i) => i)
+    values[9] = 100
+    const points = downsampleSignalStore(storeOf(values), ["A1"], 0, 10, 3)
+
+    expect(points).toHaveLength(6)
+    expect(points[points.length - 1]).toEqual({ timestamp: 0.9, A1: 100 })
+  })
+
+  it("skips gap-filled samples, and gives NaN for a bucket that is all gap", () => {
+    const store = storeOf([NaN, 4, 1, NaN, NaN, NaN, NaN, NaN])
+    const points = downsampleSignalStore(store, ["A1"], 0, 8, 2)
+
+    expect(points.map((point) => point.A1)).toEqual([4, 1, NaN, NaN])
+  })
+
+  it("clamps the index range to the store", () => {
+    const store = storeOf([1, 2, 3])
+
+    expect(downsampleSignalStore(store, ["A1"], -5, 50, 10).map((point) => point.A1)).toEqual([1, 2, 3])
+  })
+})
+
+describe("getViewportPoints", () => {
+  it("includes one sample beyond each edge of the domain", () => {
+    const store = storeOf(Array.from({ length: 100 }, (_, i) => i))
+    const points = getViewportPoints(store, ["A1"], [2, 3])
+
+    expect(points[0].timestamp).toBeCloseTo(1.9, 9)
+    expect(points[points.length - 1].timestamp).toBeCloseTo(3.1, 9)
+    expect(points).toHaveLength(13)
+  })
+})
+
+describe("sample indexing", () => {
+  const store = storeOf(Array.from({ length: 50 }, (_, i) => i), 10, 1)
+
+  it("maps times to the first sample at or after them, tolerating float error", () => {
+    expect(getSampleIndexAtTime(store, 1.3)).toBe(3)
+    expect(getSampleIndexAtTime(store, 1.31)).toBe(4)
+    expect(getSampleIndexAtTime(store, 1 + 0.1 * 3)).toBe(3)
+    expect(getSampleIndexAtTime(store, -10)).toBe(0)
+    expect(getSampleIndexAtTime(store, 100)).toBe(50)
+  })
+
+  it("gives the half-open range of samples inside a time span, both ends included", () => {
+    expect(getSampleRangeForTimes(store, 1.3, 1.5)).toEqual([3, 6])
+    expect(getSampleRangeForTimes(store, 1.31, 1.39)).toEqual([4, 4])
+    expect(getSampleRangeForTimes(store, 0, 100)).toEqual([0, 50])
+  })
+
+  it("spans the first to the last sample time", () => {
+    expect(getTimeRange(store)).toEqual([1, 5.9])
+    expect(getTimeRange(storeOf([]))).toEqual([0, 0])
+  })
+})
+
+describe("sliceSignalStore", () => {
+  it("shares the buffers and moves the time base and source offset along", () => {
+    const store = storeOf(Array.from({ length: 50 }, (_, i) => i), 10, 1)
+    const slice = sliceSignalStore(store, 10, 20, 2)
+
+    expect(slice.length).toBe(10)
+    expect(slice.channels.A1.buffer).toBe(store.channels.A1.buffer)
+    expect(slice.channels.A1[0]).toBe(10)
+    expect(slice.startTime).toBeCloseTo(0, 9)
+    expect(slice.sourceOffset).toBe(10)
+
+    const nested = sliceSignalStore(slice, 5, 8)
+    expect(nested.sourceOffset).toBe(15)
+    expect(nested.startTime).toBeCloseTo(0.5, 9)
+  })
+
+  it("copies sliced views into tight buffers when compacted, and leaves whole buffers alone", () => {
+    const store = storeOf([1, 2, 3, 4])
+    const compacted = compactSignalColumns(sliceSignalStore(store, 1, 3))
+
+    expect(Array.from(compacted.channels.A1)).toEqual([2, 3])
+    expect(compacted.channels.A1.buffer.byteLength).toBe(2 * Float32Array.BYTES_PER_ELEMENT)
+    expect(compactSignalColumns(store).channels.A1).toBe(store.channels.A1)
+  })
+})
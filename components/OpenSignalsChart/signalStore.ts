@@ -0,0 +1,191 @@
+import type { ChannelKey, ChannelRanges, DataPoint, SignalColumns, SignalStore } from "./types"
+import { OVERVIEW_BUCKET_COUNT, VIEWPORT_BUCKET_COUNT } from "./constants"
+
+export const EMPTY_SIGNAL_STORE: SignalStore = {
+  length: 0,
+  samplingRate: 1000,
+  startTime: 0,
+  sourceOffset: 0,
+  channels: {},
+}
+
+export function createSignalStore(
+  columns: SignalColumns,
+  samplingRate: number,
+  startTime = 0,
+  sourceOffset = 0
+): SignalStore {
+  return {
+    length: columns.length,
+    channels: columns.channels,
+    auxiliary: columns.auxiliary,
+    samplingRate,
+    startTime,
+    sourceOffset,
+  }
+}
+
+export function getSampleTime(store: SignalStore, index: number): number {
+  return store.startTime + index / store.samplingRate
+}
+
+// Index of the first sample at or after `time`, clamped to the store
+export function getSampleIndexAtTime(store: SignalStore, time: number): number {
+  const index = Math.ceil((time - store.startTime) * store.samplingRate - 1e-6)
+  return Math.min(store.length, Math.max(0, index))
+}
+
+// Half-open index range of the samples whose time falls within [startTime, endTime]
+export function getSampleRangeForTimes(store: SignalStore, startTime: number, endTime: number): [number, number] {
+  const startIndex = getSampleIndexAtTime(store, startTime)
+  const lastIndex = Math.floor((endTime - store.startTime) * store.samplingRate + 1e-6)
+  return [startIndex, Math.min(store.length, Math.max(startIndex, lastIndex + 1))]
+}
+
+export function getTimeRange(store: SignalStore): [number, number] {
+  if (store.length === 0) return [0, 0]
+  return [store.startTime, getSampleTime(store, store.length - 1)]
+}
+
+export function getSampleValue(store: SignalStore, channel: ChannelKey, index: number): number {
+  return store.channels[channel]?.[index] ?? NaN
+}
+
+export function getPointAt(store: SignalStore, index: number, channels: ChannelKey[]): DataPoint {
+  const point: DataPoint = { timestamp: getSampleTime(store, index) }
+  for (const channel of channels) {
+    point[channel] = getSampleValue(store, channel, index)
+  }
+  return point
+}
+
+// Views share the underlying buffers; `timeOffset` is subtracted from the new time base
+export function sliceSignalStore(
+  store: SignalStore,
+  startIndex: number,
+  endIndex: number,
+  timeOffset = 0
+): SignalStore {
+  const start = Math.min(store.length, Math.max(0, startIndex))
+  const end = Math.min(store.length, Math.max(start, endIndex))
+  const sliceColumns = (columns: Record<string, Float32Array>) =>
+    Object.fromEntries(Object.entries(columns).map(([key, values]) => [key, values.subarray(start, end)]))
+  return {
+    length: end - start,
+    channels: sliceColumns(store.channels),
+    auxiliary: store.auxiliary && sliceColumns(store.auxiliary),
+    samplingRate: store.samplingRate,
+    startTime: getSampleTime(store, start) - timeOffset,
+    sourceOffset: store.sourceOffset + start,
+  }
+}
+
+// Copies sliced views into tight buffers so persisting them doesn't drag the whole recording along
+export function compactSignalColumns(store: SignalStore): SignalColumns {
+  const compactColumns = (columns: Record<string, Float32Array>) =>
+    Object.fromEntries(
+      Object.entries(columns).map(([key, values]) => {
+        const isView = values.byteOffset !== 0 || values.byteLength !== values.buffer.byteLength
+        return [key, isView ? values.slice() : values]
+      })
+    )
+  return {
+    length: store.length,
+    channels: compactColumns(store.channels),
+    auxiliary: store.auxiliary && compactColumns(store.auxiliary),
+  }
+}
+
+// Keeps each bucket's min and max in the order they occur, so peaks survive at any zoom level
+export function downsampleSignalStore(
+  store: SignalStore,
+  channels: ChannelKey[],
+  startIndex: number,
+  endIndex: number,
+  bucketCount: number
+): DataPoint[] {
+  const start = Math.min(store.length, Math.max(0, startIndex))
+  const end = Math.min(store.length, Math.max(start, endIndex))
+  const count = end - start
+  const points: DataPoint[] = []
+
+  if (count <= bucketCount * 2) {
+    for (let i = start; i < end; i++) {
+      points.push(getPointAt(store, i, channels))
+    }
+    return points
+  }
+
+  const bucketSize = count / bucketCount
+  for (let b = 0; b < bucketCount; b++) {
+    const bucketStart = start + Math.floor(b * bucketSize)
+    const bucketEnd = start + Math.floor((b + 1) * bucketSize)
+    if (bucketEnd <= bucketStart) continue
+
+    const first: DataPoint = { timestamp: getSampleTime(store, bucketStart) }
+    const second: DataPoint = { timestamp: getSampleTime(store, bucketEnd - 1) }
+
+    for (const channel of channels) {
+      const values = store.channels[channel]
+      let minIndex = -1
+      let maxIndex = -1
+      for (let i = bucketStart; i < bucketEnd; i++) {
+        const value = values?.[i]
+        // Gap-filled samples are NaN and never count as an extreme
+        if (value === undefined || Number.isNaN(value)) continue
+        if (minIndex < 0 || value < values[minIndex]) minIndex = i
+        if (maxIndex < 0 || value > values[maxIndex]) maxIndex = i
+      }
+
+      if (minIndex < 0) {
+        first[channel] = NaN
+        second[channel] = NaN
+      } else {
+        const [earlier, later] = minIndex <= maxIndex ? [minIndex, maxIndex] : [maxIndex, minIndex]
+        first[channel] = values[earlier]
+        second[channel] = values[later]
+      }
+    }
+
+    points.push(first, second)
+  }
+
+  return points
+}
+
+export function getOverviewPoints(store: SignalStore, channels: ChannelKey[]): DataPoint[] {
+  return downsampleSignalStore(store, channels, 0, store.length, OVERVIEW_BUCKET_COUNT)
+}
+
+export function getViewportPoints(
+  store: SignalStore,
+  channels: ChannelKey[],
+  domain: [number, number] | undefined
+): DataPoint[] {
+  if (!domain) {
+    return downsampleSignalStore(store, channels, 0, store.length, VIEWPORT_BUCKET_COUNT)
+  }
+  // One extra sample on each side keeps the line running to the plot edges
+  const [startIndex, endIndex] = getSampleRangeForTimes(store, domain[0], domain[1])
+  return downsampleSignalStore(store, channels, startIndex - 1, endIndex + 1, VIEWPORT_BUCKET_COUNT)
+}
+
+export function computeStoreRanges(store: SignalStore, channels: ChannelKey[]): ChannelRanges {
+  const ranges: ChannelRanges = {}
+  if (store.length === 0) return ranges
+
+  for (const channel of channels) {
+    const values = store.channels[channel]
+    if (!values) continue
+    let min = Number.POSITIVE_INFINITY
+    let max = Number.NEGATIVE_INFINITY
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i]
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    ranges[channel] = [min, max]
+  }
+
+  return ranges
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+import { createSignalStore } from "./signalStore"
+import { detectSyncMarkers, getHighIntervals, getSyncTracks, matchLabelsToMarkers } from "./syncMarkers"
+import type { OpenSignalsDevice, SyncMarker } from "./types"
+
+const DEVICE = "00:07:80:4D:2E:76"
+
+function storeWith(auxiliary: Record<string, number[]>, startTime = 0) {
+  const length = Object.values(auxiliary)[0]?.length ?? 0
+  return createSignalStore(
+    {
+      length,
+      channels: {},
+      auxiliary: Object.fromEntries(Object.entries(auxiliary).map(([key, values]) => [key, Float32Array.from(values)])),
+    },
+    100,
+    startTime
+  )
+}
+
+function risingAt(...times: number[]): SyncMarker[] {
+  return times.map((time) => ({ sampleIndex: Math.round(time * 100), time, edge: "rising" }))
+}
+
+describe("detectSyncMarkers", () => {
+  it("finds rising and falling edges at the sample they happen, on the store's time base", () => {
+    const store = storeWith({ [`${DEVICE}:I1`]: [0, 0, 1, 1, 1, 0, 0, 1] }, 2)
+    const { initialHigh, markers } = detectSyncMarkers(store, `${DEVICE}:I1`)
+
+    expect(initialHigh).toBe(false)
+    expect(markers).toEqual([
+      { sampleIndex: 2, time: 2.02, edge: "rising" },
+      { sampleIndex: 5, time: 2.05, edge: "falling" },
+      { sampleIndex: 7, time: 2.07, edge: "rising" },
+    ])
+  })
+
+  it("thresholds raw counts halfway between their levels", () => {
+    const store = storeWith({ line: [1023, 1020, 3, 0, 1019] })
+    const { initialHigh, markers } = detectSyncMarkers(store, "line")
+
+    expect(initialHigh).toBe(true)
+    expect(markers.map((marker) => [marker.sampleIndex, marker.edge])).toEqual([
+      [2, "falling"],
+      [4, "rising"],
+    ])
+  })
+
+  it("keeps the level across gap-filled samples", () => {
+    const store = storeWith({ line: [0, 1, NaN, NaN, 1, 0] })
+
+    expect(detectSyncMarkers(store, "line").markers.map((marker) => marker.sampleIndex)).toEqual([1, 5])
+  })
+
+  it("finds nothing on a flat or missing line", () => {
+    const store = storeWith({ line: [1, 1, 1] })
+
+    expect(detectSyncMarkers(store, "line")).toEqual({ initialHigh: true, markers: [] })
+    expect(detectSyncMarkers(store, "other")).toEqual({ initialHigh: false, markers: [] })
+  })
+})
+
+describe("getSyncTracks", () => {
+  it("lists the digital columns without nSeq, with directions from the device header", () => {
+    const device: OpenSignalsDevice = {
+      deviceId: DEVICE,
+      position: 0,
+      columnOffset: 0,
+      columns: ["nSeq", "I1", "O1", "A1"],
+      header: { "digital IO": [0, 1] },
+    }
+    const store = storeWith({
+      [`${DEVICE}:nSeq`]: [0, 1, 2, 3],
+      [`${DEVICE}:I1`]: [0, 1, 1, 0],
+      [`${DEVICE}:O1`]: [0, 0, 0, 0],
+    })
+    const tracks = getSyncTracks(store, [device])
+
+    expect(tracks.map((track) => [track.column, track.direction, track.markers.length])).toEqual([
+      ["I1", "input", 2],
+      ["O1", "output", 0],
+    ])
+  })
+})
+
+describe("matchLabelsToMarkers", () => {
+  const labelsAt = (...starts: number[]) => starts.map((start) => ({ start, end: start + 0.5, label: "stare" }))
+
+  it("pairs each label onset with the nearest rising edge", () => {
+    const anchors = matchLabelsToMarkers({
+      segments: [...labelsAt(1, 5, 9), { start: 3, end: 4, label: "blink" }],
+      label: "stare",
+      markers: risingAt(1.2, 5.25, 9.2),
+    })
+
+    expect(anchors).toEqual([
+      { labelTime: 1, signalTime: 1.2, source: "marker" },
+      { labelTime: 5, signalTime: 5.25, source: "marker" },
+      { labelTime: 9, signalTime: 9.2, source: "marker" },
+    ])
+  })
+
+  it("uses every edge once and skips labels with no edge within the lag window", () => {
+    const anchors = matchLabelsToMarkers({
+      segments: labelsAt(1, 1.1, 5),
+      label: "stare",
+      markers: risingAt(1.05, 7),
+      maxLagMs: 500,
+    })
+
+    expect(anchors).toEqual([{ labelTime: 1, signalTime: 1.05, source: "marker" }])
+  })
+})
+
+describe("getHighIntervals", () => {
+  it("clips the high stretches to the domain", () => {
+    const store = storeWith({ line: [1, 1, 0, 0, 1, 1, 0, 0, 1, 1] })
+    const { initialHigh, markers } = detectSyncMarkers(store, "line")
+    const track = { key: "line", deviceId: DEVICE, column: "I1", direction: "input" as const, initialHigh, markers }
+
+    expect(getHighIntervals(track, [0, 0.1])).toEqual([
+      [0, 0.02],
+      [0.04, 0.06],
+      [0.08, 0.1],
+    ])
+    expect(getHighIntervals(track, [0.05, 0.07])).toEqual([[0.05, 0.06]])
+  })
+})
@@ -0,0 +1,158 @@
+import type { LabelSegment, OpenSignalsDevice, SignalStore, SyncMarker, SyncTrack } from "./types"
+import { getAuxiliaryColumnKey } from "./opensignals"
+import { DEFAULT_MAX_LAG_MS, type ClockAnchor } from "./alignment"
+
+const SEQUENCE_COLUMN = "nSeq"
+
+function getDigitalDirections(device: OpenSignalsDevice): unknown[] {
+  const directions = device.header["digital IO"]
+  return Array.isArray(directions) ? directions : []
+}
+
+// Edges are taken at the midpoint between the lowest and highest level, so both 0/1 and raw
+// counts work; gap-filled samples keep the level they interrupt
+export function detectSyncMarkers(store: SignalStore, key: string): { initialHigh: boolean; markers: SyncMarker[] } {
+  const values = store.auxiliary?.[key]
+  if (!values) return { initialHigh: false, markers: [] }
+
+  let min = Infinity
+  let max = -Infinity
+  for (const value of values) {
+    if (Number.isNaN(value)) continue
+    if (value < min) min = value
+    if (value > max) max = value
+  }
+  if (!(max > min)) return { initialHigh: max > 0, markers: [] }
+
+  const threshold = (min + max) / 2
+  const markers: SyncMarker[] = []
+  let initialHigh: boolean | null = null
+  let high = false
+  for (let i = 0; i < values.length; i++) {
+    if (Number.isNaN(values[i])) continue
+    const isHigh = values[i] > threshold
+    if (initialHigh === null) {
+      initialHigh = isHigh
+      high = isHigh
+      continue
+    }
+    if (isHigh === high) continue
+    high = isHigh
+    markers.push({ sampleIndex: i, time: store.startTime + i / store.samplingRate, edge: isHigh ? "rising" : "falling" })
+  }
+  return { initialHigh: initialHigh ?? false, markers }
+}
+
+// Digital IO columns in device order; sessions without device headers fall back to the column names
+export function getSyncTracks(store: SignalStore, devices: OpenSignalsDevice[]): SyncTrack[] {
+  const auxiliary = store.auxiliary
+  if (!auxiliary) return []
+  const deviceColumns =
+    devices.length > 0
+      ? devices.map((device) => ({
+          deviceId: device.deviceId,
+          columns: device.columns,
+          directions: getDigitalDirections(device),
+        }))
+      : Object.keys(auxiliary).map((key) => {
+          const separator = key.lastIndexOf(":")
+          return { deviceId: key.slice(0, separator), columns: [key.slice(separator + 1)], directions: [] }
+        })
+
+  return deviceColumns.flatMap(({ deviceId, columns, directions }) =>
+    columns
+      .filter((column) => column !== SEQUENCE_COLUMN && auxiliary[getAuxiliaryColumnKey(deviceId, column)])
+      .map((column, digitalIndex) => {
+        const key = getAuxiliaryColumnKey(deviceId, column)
+        const direction = directions[digitalIndex] ?? (column.startsWith("O") ? 1 : 0)
+        return {
+          key,
+          deviceId,
+          column,
+          direction: direction === 1 ? ("output" as const) : ("input" as const),
+          ...detectSyncMarkers(store, key),
+        }
+      })
+  )
+}
+
+// The first input that actually pulses, since that's where the stimulus PC's TTL comes in
+export function getDefaultSyncTrack(tracks: SyncTrack[]): SyncTrack | null {
+  const pulsing = tracks.filter((track) => track.markers.some((marker) => marker.edge === "rising"))
+  return pulsing.find((track) => track.direction === "input") ?? pulsing[0] ?? null
+}
+
+// Each label onset is paired with the nearest rising edge not already taken, so labels line up
+// with the hardware trigger instead of the keypress wall clock
+export function matchLabelsToMarkers({
+  segments,
+  label,
+  markers,
+  maxLagMs = DEFAULT_MAX_LAG_MS,
+}: {
+  segments: LabelSegment[]
+  label: string
+  markers: SyncMarker[]
+  maxLagMs?: number
+}): ClockAnchor[] {
+  const maxLag = maxLagMs / 1000
+  const onsets = markers.filter((marker) => marker.edge === "rising").map((marker) => marker.time)
+  const used = new Set<number>()
+
+  const anchors: ClockAnchor[] = []
+  const starts = segments
+    .filter((segment) => segment.label === label)
+    .map((segment) => segment.start)
+    .sort((a, b) => a - b)
+  for (const start of starts) {
+    let best = -1
+    for (let i = 0; i < onsets.length; i++) {
+      if (used.has(i) || Math.abs(onsets[i] - start) > maxLag) continue
+      if (best < 0 || Math.abs(onsets[i] - start) < Math.abs(onsets[best] - start)) best = i
+    }
+    if (best < 0) continue
+    used.add(best)
+    anchors.push({ labelTime: start, signalTime: onsets[best], source: "marker" })
+  }
+  return anchors
+}
+
+function findFirstMarkerFrom(markers: SyncMarker[], time: number): number {
+  let low = 0
+  let high = markers.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (markers[mid].time < time) low = mid + 1
+    else high = mid
+  }
+  return low
+}
+
+// Stretches where the line is high within the domain, for drawing the event track
+export function getHighIntervals(track: SyncTrack, domain: [number, number]): [number, number][] {
+  const first = findFirstMarkerFrom(track.markers, domain[0])
+  let high = first > 0 ? track.markers[first - 1].edge === "rising" : track.initialHigh
+  let from = domain[0]
+  const intervals: [number, number][] = []
+  for (let i = first; i < track.markers.length && track.markers[i].time <= domain[1]; i++) {
+    const marker = track.markers[i]
+    if (high && marker.edge === "falling") intervals.push([from, marker.time])
+    high = marker.edge === "rising"
+    from = marker.time
+  }
+  if (high) intervals.push([from, domain[1]])
+  return intervals
+}
+
+// Rising edges of the shown tracks within the domain
+export function getVisibleSyncMarkers(tracks: SyncTrack[], domain: [number, number]): SyncMarker[] {
+  return tracks.flatMap((track) => {
+    const visible: SyncMarker[] = []
+    for (let i = findFirstMarkerFrom(track.markers, domain[0]); i < track.markers.length; i++) {
+      const marker = track.markers[i]
+      if (marker.time > domain[1]) break
+      if (marker.edge === "rising") visible.push(marker)
+    }
+    return visible
+  })
+}
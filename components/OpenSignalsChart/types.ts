@@ -1,19 +1,104 @@
 export interface DataPoint {
   timestamp: number
-  A1: number
-  A2: number
-  A3: number
-  A4: number
-  A5: number
-  A6: number
+  [channel: string]: number
 }
 
+export type ChannelKey = string
+
+export interface ChannelInfo {
+  key: ChannelKey
+  label: string
+  deviceId: string | null
+  columnName: string
+  columnIndex: number
+  channel: number
+  sensor: string
+  resolution: number
+}
+
+export interface SignalColumns {
+  length: number
+  channels: Record<ChannelKey, Float32Array>
+  // Non-analog columns (nSeq, digital IO) keyed by device and column name, kept for faithful export
+  auxiliary?: Record<string, Float32Array>
+}
+
+export interface OpenSignalsDevice {
+  deviceId: string
+  position: number
+  columnOffset: number
+  columns: string[]
+  // Device entry of the original file header, written back unchanged on export
+  header: Record<string, unknown>
+}
+
+// Samples are evenly spaced, so timestamps come from the time base instead of being stored
+export interface SignalStore extends SignalColumns {
+  samplingRate: number
+  startTime: number
+  // Index of the first sample in the originally loaded recording; grows with each crop
+  sourceOffset: number
+}
+
+export interface ParseProgress {
+  bytesRead: number
+  totalBytes: number
+  rowsParsed: number
+}
+
+export interface SignalGap {
+  sampleIndex: number
+  start: number
+  end: number
+  missingSamples: number
+}
+
+// Level changes on a digital IO column, e.g. a TTL pulse from the stimulus PC at each trial start
+export interface SyncMarker {
+  sampleIndex: number
+  time: number
+  edge: "rising" | "falling"
+}
+
+export interface SyncTrack {
+  // Auxiliary column key, `${deviceId}:${column}`
+  key: string
+  deviceId: string
+  column: string
+  // From the device's "digital IO" header entry: 0 is an input, 1 an output
+  direction: "input" | "output"
+  // Level before the first marker
+  initialHigh: boolean
+  markers: SyncMarker[]
+}
+
+export type ChannelLayout = "stacked" | "overlay"
+
+export type ChartRenderer = "svg" | "canvas"
+
+export type LabelEventFormat = "events-csv" | "events-json" | "bids-tsv"
+
+// "keypress" is the original one-line-per-sample format
+export type LabelExportFormat = "keypress" | LabelEventFormat
+
+export type SignalExportFormat = "opensignals" | "edf" | "bdf" | "converted-csv"
+
+export type ChannelRanges = Record<ChannelKey, [number, number]>
+
 export interface LabelSegment {
   start: number
   end: number
   label: string
 }
 
+export interface LabelDefinition {
+  name: string
+  color: string
+  // Single lowercase key, or null when the label has none
+  hotkey: string | null
+  description: string
+}
+
 export interface DraggingEdgeState {
   segmentIndex: number
   edge: 'start' | 'end'
@@ -31,3 +116,88 @@ export interface DragState {
   domain: [number, number]
 }
 
+
+export interface HistoryEntry<T> {
+  id: number
+  description: string
+  timestamp: number
+  before: T
+  after: T
+  coalesceKey?: string
+  // Older steps merged into this one once the history outgrew its limit, oldest first
+  folded?: EditLogEntry[]
+}
+
+// Signal state touched by a crop; store slices share buffers, so every snapshot can keep one
+export interface SignalSnapshot {
+  store: SignalStore
+  gaps: SignalGap[]
+  ranges: ChannelRanges
+  signalStartTimestampMs: number | null
+  keypressStartTimestampMs: number | null
+}
+
+// Maps keypress-clock label times onto the signal clock: a label at t seconds from the start of
+// the original recording is moved by clockOffsetMs plus clockDriftPpm millionths of t
+export interface ClockCorrection {
+  clockOffsetMs: number
+  clockDriftPpm: number
+}
+
+// The clock correction is already applied to the label times
+export interface EditSnapshot extends ClockCorrection {
+  labelSegments: LabelSegment[]
+  signal: SignalSnapshot
+}
+
+export interface SessionSourceFiles {
+  signal: string
+  // Null when labels came from the recording itself (EDF+ annotations)
+  keypress: string | null
+  // SHA-256 of the files as loaded, kept so exports can be traced back to the raw recording
+  signalSha256?: string
+  keypressSha256?: string
+}
+
+export interface EditLogEntry {
+  description: string
+  timestamp: number
+}
+
+// Everything but the samples themselves, so label edits don't rewrite the signal
+export interface SavedSession {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  sourceFiles: SessionSourceFiles
+  channels: ChannelInfo[]
+  visibleChannels: ChannelKey[]
+  labelSegments: LabelSegment[]
+  signalGaps: SignalGap[]
+  fillGaps: boolean
+  samplingRate: number
+  deviceId: string | null
+  signalStartTimestampMs: number | null
+  keypressStartTimestampMs: number | null
+  keypressSamplingRate: number
+  // Correction applied to the labels to line up the keypress clock with the signal clock
+  clockOffsetMs?: number
+  clockDriftPpm?: number
+  // Absent for sessions saved before device headers were kept
+  devices?: OpenSignalsDevice[]
+  // Allowed labels; absent for sessions saved before schemas, which use the default one
+  labelSchema?: LabelDefinition[]
+  cropOffsetSamples: number
+  viewDomain: [number, number] | null
+  // Edits carried over from earlier sessions or imported projects
+  editLog?: EditLogEntry[]
+}
+
+export interface SavedSignal {
+  id: string
+  columns: SignalColumns
+  startTime: number
+}
+
+export type SessionDraft = Omit<SavedSession, "id" | "createdAt" | "updatedAt">
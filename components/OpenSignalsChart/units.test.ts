@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import type { ChannelInfo } from "./types"
+import { convertRanges, getTransferFunction, isRawSensor, toPhysical } from "./units"
+
+function channelFor(sensor: string, resolution = 10): ChannelInfo {
+  return { key: sensor, label: sensor, deviceId: null, columnName: "A1", columnIndex: 5, channel: 1, sensor, resolution }
+}
+
+describe("sensor transfer functions", () => {
+  // Half the supply over the sensor gain: the datasheet's measurement range
+  it.each([
+    ["EOG", 808.82],
+    ["EEG", 39.49],
+    ["EMG", 1.6353],
+    ["ECG", 1.5],
+  ])("maps the %s ADC range onto ±%f around mid-scale", (sensor, range) => {
+    const channel = channelFor(sensor)
+
+    expect(toPhysical(0, channel)).toBeCloseTo(-range, 2)
+    expect(toPhysical(512, channel)).toBe(0)
+    expect(toPhysical(1024, channel)).toBeCloseTo(range, 2)
+  })
+
+  it("scales by the channel's resolution", () => {
+    expect(toPhysical(32, channelFor("EOG", 6))).toBe(0)
+    expect(toPhysical(0, channelFor("EOG", 6))).toBeCloseTo(toPhysical(0, channelFor("EOG", 10)), 6)
+  })
+
+  it("maps EDA from zero to 25 µS", () => {
+    expect(toPhysical(0, channelFor("EDA"))).toBe(0)
+    expect(toPhysical(1024, channelFor("EDA"))).toBeCloseTo(25, 6)
+  })
+
+  it("leaves RAW and unknown sensors in ADC counts", () => {
+    expect(toPhysical(700, channelFor("RAW"))).toBe(700)
+    expect(getTransferFunction("PZT").unit).toBe("ADC")
+    expect(isRawSensor("PZT")).toBe(true)
+  })
+
+  it("looks sensors up case-insensitively", () => {
+    expect(getTransferFunction("eog").unit).toBe("µV")
+    expect(isRawSensor("eog")).toBe(false)
+  })
+
+  it("converts y-ranges of non-raw channels only", () => {
+    const eog = channelFor("EOG")
+    const raw = channelFor("RAW")
+    const converted = convertRanges({ EOG: [0, 512], RAW: [10, 20] }, [eog, raw])
+
+    expect(converted.EOG[0]).toBeCloseTo(-808.82, 2)
+    expect(converted.EOG[1]).toBe(0)
+    expect(converted.RAW).toEqual([10, 20])
+  })
+})
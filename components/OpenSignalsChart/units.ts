@@ -0,0 +1,77 @@
+import type { ChannelInfo, ChannelRanges, DataPoint, SignalStore } from "./types"
+import { getSampleTime, getSampleValue } from "./signalStore"
+
+// BITalino sensors are powered at 3.3V; gains come from the sensor datasheets
+const VCC = 3.3
+
+export interface SensorTransferFunction {
+  unit: string
+  convert: (adc: number, resolution: number) => number
+}
+
+function centeredTransfer(gain: number, scale: number) {
+  return (adc: number, resolution: number) => ((adc / 2 ** resolution - 0.5) * VCC / gain) * scale
+}
+
+export const SENSOR_TRANSFER_FUNCTIONS: Record<string, SensorTransferFunction> = {
+  RAW: { unit: "ADC", convert: (adc) => adc },
+  EOG: { unit: "µV", convert: centeredTransfer(2040, 1e6) },
+  EEG: { unit: "µV", convert: centeredTransfer(41782, 1e6) },
+  EMG: { unit: "mV", convert: centeredTransfer(1009, 1e3) },
+  ECG: { unit: "mV", convert: centeredTransfer(1100, 1e3) },
+  EDA: { unit: "µS", convert: (adc, resolution) => (adc / 2 ** resolution) * VCC / 0.132 },
+}
+
+export const SENSOR_TYPES = Object.keys(SENSOR_TRANSFER_FUNCTIONS)
+
+export function getTransferFunction(sensor: string): SensorTransferFunction {
+  return SENSOR_TRANSFER_FUNCTIONS[sensor.toUpperCase()] ?? SENSOR_TRANSFER_FUNCTIONS.RAW
+}
+
+export function getChannelUnit(channel: ChannelInfo): string {
+  return getTransferFunction(channel.sensor).unit
+}
+
+export function toPhysical(value: number, channel: ChannelInfo): number {
+  return getTransferFunction(channel.sensor).convert(value, channel.resolution)
+}
+
+export function isRawSensor(sensor: string): boolean {
+  return getTransferFunction(sensor) === SENSOR_TRANSFER_FUNCTIONS.RAW
+}
+
+export function convertPoints(points: DataPoint[], channels: ChannelInfo[]): DataPoint[] {
+  const converted = channels.filter((channel) => !isRawSensor(channel.sensor))
+  if (converted.length === 0) return points
+
+  return points.map((point) => {
+    const next: DataPoint = { ...point }
+    for (const channel of converted) {
+      next[channel.key] = toPhysical(point[channel.key], channel)
+    }
+    return next
+  })
+}
+
+export function convertRanges(ranges: ChannelRanges, channels: ChannelInfo[]): ChannelRanges {
+  const converted: ChannelRanges = { ...ranges }
+  for (const channel of channels) {
+    const range = ranges[channel.key]
+    if (!range || isRawSensor(channel.sensor)) continue
+    // Transfer functions are increasing, so the endpoints map straight across
+    converted[channel.key] = [toPhysical(range[0], channel), toPhysical(range[1], channel)]
+  }
+  return converted
+}
+
+export function serializeConvertedCsv(store: SignalStore, channels: ChannelInfo[]): string {
+  const lines: string[] = []
+  lines.push(["time_s", ...channels.map((channel) => `${channel.key} (${getChannelUnit(channel)})`)].join(","))
+
+  for (let i = 0; i < store.length; i++) {
+    const values = channels.map((channel) => toPhysical(getSampleValue(store, channel.key, i), channel).toPrecision(8))
+    lines.push([getSampleTime(store, i).toFixed(6), ...values].join(","))
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest"
+import type { LabelSegment } from "./types"
+import {
+  getMergeRange,
+  mergeSegments,
+  moveSegments,
+  parseKeypressLabelSegmentsWithMetadata,
+  splitSegment,
+} from "./utils"
+
+describe("parseKeypressLabelSegmentsWithMetadata with event files", () => {
+  it("sorts overlapping, out-of-order BIDS events into disjoint segments", () => {
+    const tsv = [
+      "onset\tduration\ttrial_type",
+      "5\t2\tleft",
+      "0\t4\tstare",
+      "3\t1\tblink",
+      "6.5\t2\tright",
+    ].join("\n")
+
+    const { segments } = parseKeypressLabelSegmentsWithMetadata(tsv, null, [0, 100])
+
+    expect(segments).toEqual([
+      { start: 0, end: 3, label: "stare" },
+      { start: 3, end: 4, label: "blink" },
+      { start: 5, end: 6.5, label: "left" },
+      { start: 6.5, end: 8.5, label: "right" },
+    ])
+  })
+
+  it("does the same for JSON events", () => {
+    const json = JSON.stringify({
+      events: [
+        { onset: 2, offset: 6, label: "stare" },
+        { onset: 1, offset: 3, label: "up" },
+      ],
+    })
+
+    const { segments } = parseKeypressLabelSegmentsWithMetadata(json, null, [0, 100])
+
+    expect(segments).toEqual([
+      { start: 1, end: 2, label: "up" },
+      { start: 2, end: 6, label: "stare" },
+    ])
+  })
+})
+
+describe("splitSegment", () => {
+  const segments: LabelSegment[] = [
+    { start: 0, end: 1, label: "stare" },
+    { start: 1, end: 2, label: "left" },
+  ]
+
+  it("cuts the segment in two halves that share the cut", () => {
+    expect(splitSegment(segments, 1, 1.4)).toEqual([
+      { start: 0, end: 1, label: "stare" },
+      { start: 1, end: 1.4, label: "left" },
+      { start: 1.4, end: 2, label: "left" },
+    ])
+  })
+
+  it("refuses cuts that would leave a half shorter than the minimum", () => {
+    expect(splitSegment(segments, 1, 1.005)).toBeNull()
+    expect(splitSegment(segments, 1, 1.995)).toBeNull()
+    expect(splitSegment(segments, 1, 2.5)).toBeNull()
+    expect(splitSegment(segments, 2, 0.5)).toBeNull()
+  })
+})
+
+describe("getMergeRange and mergeSegments", () => {
+  const segments: LabelSegment[] = [
+    { start: 0, end: 1, label: "left" },
+    { start: 1, end: 2, label: "stare" },
+    // Within the match tolerance of the previous end
+    { start: 2.001, end: 3, label: "stare" },
+    { start: 3, end: 4, label: "stare" },
+    { start: 4.5, end: 5, label: "stare" },
+  ]
+
+  it("finds the run of touching segments with the same label around a segment", () => {
+    expect(getMergeRange(segments, 2)).toEqual([1, 3])
+    expect(getMergeRange(segments, 1)).toEqual([1, 3])
+  })
+
+  it("finds nothing to merge for a segment without a touching twin", () => {
+    expect(getMergeRange(segments, 0)).toBeNull()
+    expect(getMergeRange(segments, 4)).toBeNull()
+    expect(getMergeRange(segments, 9)).toBeNull()
+  })
+
+  it("joins the run into one segment from its first start to its last end", () => {
+    expect(mergeSegments(segments, [1, 3])).toEqual([
+      { start: 0, end: 1, label: "left" },
+      { start: 1, end: 4, label: "stare" },
+      { start: 4.5, end: 5, label: "stare" },
+    ])
+  })
+})
+
+describe("moveSegments", () => {
+  const shiftBy = (seconds: number) => (time: number) => Math.round((time + seconds) * 1000) / 1000
+
+  it("drags the neighbours' shared edges along with the moved segment", () => {
+    const segments: LabelSegment[] = [
+      { start: 0, end: 1, label: "stare" },
+      { start: 1, end: 2, label: "left" },
+      { start: 2, end: 3, label: "stare" },
+    ]
+
+    expect(moveSegments(segments, [1], shiftBy(0.2))).toEqual({
+      segments: [
+        { start: 0, end: 1.2, label: "stare" },
+        { start: 1.2, end: 2.2, label: "left" },
+        { start: 2.2, end: 3, label: "stare" },
+      ],
+      movedIndices: [1],
+    })
+  })
+
+  it("leaves neighbours across a gap in place", () => {
+    const segments: LabelSegment[] = [
+      { start: 0, end: 1, label: "stare" },
+      { start: 1.5, end: 2, label: "left" },
+    ]
+
+    expect(moveSegments(segments, [1], shiftBy(-0.2)).segments).toEqual([
+      { start: 0, end: 1, label: "stare" },
+      { start: 1.3, end: 1.8, label: "left" },
+    ])
+  })
+
+  it("trims and drops segments the moved one now covers", () => {
+    const segments: LabelSegment[] = [
+      { start: 0, end: 1, label: "blink" },
+      { start: 1, end: 2, label: "stare" },
+      { start: 3, end: 4, label: "left" },
+    ]
+
+    expect(moveSegments(segments, [0], shiftBy(2.5))).toEqual({
+      segments: [
+        { start: 2.5, end: 3.5, label: "blink" },
+        { start: 3.5, end: 4, label: "left" },
+      ],
+      movedIndices: [0],
+    })
+  })
+
+  it("moves several segments together and reports where they ended up", () => {
+    const segments: LabelSegment[] = [
+      { start: 0, end: 1, label: "stare" },
+      { start: 1, end: 2, label: "left" },
+      { start: 2, end: 3, label: "right" },
+      { start: 3, end: 4, label: "stare" },
+    ]
+
+    expect(moveSegments(segments, [1, 2], shiftBy(-0.5))).toEqual({
+      segments: [
+        { start: 0, end: 0.5, label: "stare" },
+        { start: 0.5, end: 1.5, label: "left" },
+        { start: 1.5, end: 2.5, label: "right" },
+        { start: 2.5, end: 4, label: "stare" },
+      ],
+      movedIndices: [1, 2],
+    })
+  })
+
+  it("skips segments that snapping collapses to nothing", () => {
+    const segments: LabelSegment[] = [
+      { start: 0, end: 1, label: "stare" },
+      { start: 1.2, end: 1.201, label: "blink" },
+    ]
+    const snapToTenths = (time: number) => Math.round(time * 10) / 10
+
+    expect(moveSegments(segments, [1], snapToTenths)).toEqual({
+      segments: [{ start: 0, end: 1, label: "stare" }],
+      movedIndices: [],
+    })
+  })
+})
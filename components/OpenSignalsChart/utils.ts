@@ -1,14 +1,76 @@
-import type { DataPoint, LabelSegment } from "./types"
-import { LABEL_COLORS, DEFAULT_LABEL_COLOR, SEGMENT_MATCH_EPSILON } from "./constants"
+import type { ChartConfig } from "@/components/ui/chart"
+import type { ChannelInfo, ChannelKey, LabelDefinition, LabelSegment } from "./types"
+import {
+  DEFAULT_LABEL_COLOR,
+  SEGMENT_MATCH_EPSILON,
+  CHANNEL_COLORS,
+  DEFAULT_VISIBLE_CHANNEL,
+  MIN_SEGMENT_DURATION,
+} from "./constants"
+import { getChannelUnit } from "./units"
+import { isLabelEventsText, parseLabelEventsText } from "./labelEvents"
 
-export function getLabelColor(label: string): string {
-  return LABEL_COLORS[label] ?? DEFAULT_LABEL_COLOR
+const CLOCK_OFFSET_HEADER = "# Clock offset:"
+const CLOCK_DRIFT_HEADER = "# Clock drift:"
+
+const padNumber = (value: number, length = 2) => value.toString().padStart(length, "0")
+
+export function formatLocalDate(date: Date): string {
+  return `${date.getFullYear()}-${padNumber(date.getMonth() + 1)}-${padNumber(date.getDate())}`
+}
+
+export function formatLocalTimeWithMs(date: Date): string {
+  return `${padNumber(date.getHours())}:${padNumber(date.getMinutes())}:${padNumber(date.getSeconds())}.${padNumber(date.getMilliseconds(), 3)}`
+}
+
+export function getExportTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19)
+}
+
+export function downloadTextFile(content: string, filename: string, type = "text/plain") {
+  downloadBlob(new Blob([content], { type }), filename)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Labels outside the schema share a neutral color until they're mapped or added
+export function getLabelColor(label: string, schema: LabelDefinition[]): string {
+  return schema.find((definition) => definition.name === label)?.color ?? DEFAULT_LABEL_COLOR
 }
 
 export function formatSegmentRange(segment: LabelSegment): string {
   return `${segment.start.toFixed(2)}s - ${segment.end.toFixed(2)}s`
 }
 
+export function buildChannelChartConfig(channels: ChannelInfo[]): ChartConfig {
+  const config: ChartConfig = {}
+  const isMultiDevice = new Set(channels.map((channel) => channel.deviceId)).size > 1
+  channels.forEach((channel) => {
+    const name = isMultiDevice && channel.deviceId ? `${channel.label} (${channel.deviceId})` : channel.label
+    config[channel.key] = {
+      label: `${name} [${getChannelUnit(channel)}]`,
+      color: CHANNEL_COLORS[(channel.channel - 1 + CHANNEL_COLORS.length) % CHANNEL_COLORS.length],
+    }
+  })
+  return config
+}
+
+export function getDefaultVisibleChannels(channels: ChannelInfo[]): ChannelKey[] {
+  const preferred = channels.find((channel) => channel.columnName === DEFAULT_VISIBLE_CHANNEL)
+  const fallback = preferred ?? channels[0]
+  return fallback ? [fallback.key] : []
+}
+
 export function findSegmentAtTimestamp(
   segments: LabelSegment[],
   timestamp: number
@@ -20,6 +82,144 @@ export function findSegmentAtTimestamp(
   )
 }
 
+// Places a segment over the existing ones: segments it covers are dropped, and ones it
+// overlaps are trimmed or split around it
+export function insertSegment(segments: LabelSegment[], newSegment: LabelSegment): LabelSegment[] {
+  const { start: startTime, end: endTime } = newSegment
+  const processedSegments: LabelSegment[] = []
+
+  for (const segment of segments) {
+    const overlaps = !(segment.end <= startTime || segment.start >= endTime)
+
+    if (!overlaps) {
+      processedSegments.push(segment)
+    } else {
+      if (startTime <= segment.start && endTime >= segment.end) {
+        continue
+      }
+
+      if (segment.start < startTime && segment.end > endTime) {
+        processedSegments.push({
+          ...segment,
+          end: startTime
+        })
+        processedSegments.push({
+          ...segment,
+          start: endTime
+        })
+        continue
+      }
+
+      if (startTime <= segment.start && endTime < segment.end) {
+        processedSegments.push({
+          ...segment,
+          start: endTime
+        })
+        continue
+      }
+
+      if (startTime > segment.start && endTime >= segment.end) {
+        processedSegments.push({
+          ...segment,
+          end: startTime
+        })
+        continue
+      }
+    }
+  }
+
+  return [...processedSegments, newSegment].sort((a, b) => a.start - b.start)
+}
+
+// Cuts a segment in two at `time`; the halves share the cut, so the labels stay contiguous
+export function splitSegment(segments: LabelSegment[], index: number, time: number): LabelSegment[] | null {
+  const segment = segments[index]
+  if (!segment) return null
+  if (time - segment.start < MIN_SEGMENT_DURATION || segment.end - time < MIN_SEGMENT_DURATION) return null
+  return [
+    ...segments.slice(0, index),
+    { ...segment, end: time },
+    { ...segment, start: time },
+    ...segments.slice(index + 1),
+  ]
+}
+
+// Indices of the run of touching, same-label segments around `index`
+export function getMergeRange(segments: LabelSegment[], index: number): [number, number] | null {
+  const segment = segments[index]
+  if (!segment) return null
+  let first = index
+  while (
+    first > 0 &&
+    segments[first - 1].label === segment.label &&
+    Math.abs(segments[first].start - segments[first - 1].end) <= SEGMENT_MATCH_EPSILON
+  ) {
+    first--
+  }
+  let last = index
+  while (
+    last < segments.length - 1 &&
+    segments[last + 1].label === segment.label &&
+    Math.abs(segments[last + 1].start - segments[last].end) <= SEGMENT_MATCH_EPSILON
+  ) {
+    last++
+  }
+  return first === last ? null : [first, last]
+}
+
+export function mergeSegments(segments: LabelSegment[], [first, last]: [number, number]): LabelSegment[] {
+  return [
+    ...segments.slice(0, first),
+    { ...segments[first], end: segments[last].end },
+    ...segments.slice(last + 1),
+  ]
+}
+
+// Moves the edges of the chosen segments through `mapTime`. Unchosen neighbours keep touching
+// the edges they shared, and are trimmed or dropped where a moved segment now covers them
+export function moveSegments(
+  segments: LabelSegment[],
+  indices: number[],
+  mapTime: (time: number) => number
+): { segments: LabelSegment[]; movedIndices: number[] } {
+  const chosen = new Set(indices)
+  const isSharedEdge = (a: number, b: number) => Math.abs(a - b) <= SEGMENT_MATCH_EPSILON
+
+  let result: LabelSegment[] = []
+  segments.forEach((segment, idx) => {
+    if (chosen.has(idx)) return
+    const prev = segments[idx - 1]
+    const next = segments[idx + 1]
+    const start = prev && chosen.has(idx - 1) && isSharedEdge(prev.end, segment.start) ? mapTime(prev.end) : segment.start
+    const end = next && chosen.has(idx + 1) && isSharedEdge(next.start, segment.end) ? mapTime(next.start) : segment.end
+    if (end - start >= MIN_SEGMENT_DURATION) result.push({ ...segment, start, end })
+  })
+
+  const moved: LabelSegment[] = []
+  for (const idx of indices) {
+    const segment = segments[idx]
+    if (!segment) continue
+    const start = mapTime(segment.start)
+    const end = mapTime(segment.end)
+    // Snapping can collapse a segment shorter than a sample
+    if (end <= start) continue
+    const movedSegment = { ...segment, start, end }
+    moved.push(movedSegment)
+    result = insertSegment(result, movedSegment)
+  }
+
+  const movedSet = new Set(moved)
+  return {
+    segments: result,
+    movedIndices: result.flatMap((segment, idx) => (movedSet.has(segment) ? [idx] : [])),
+  }
+}
+
+// Segments with any part inside [start, end]
+export function getSegmentIndicesInRange(segments: LabelSegment[], start: number, end: number): number[] {
+  return segments.flatMap((segment, idx) => (segment.end > start && segment.start < end ? [idx] : []))
+}
+
 export function parseKeypressLabelSegmentsWithMetadata(
   fileContents: string,
   signalStartTimestampMs: number | null,
@@ -28,19 +228,46 @@ export function parseKeypressLabelSegmentsWithMetadata(
   segments: LabelSegment[]
   keypressStartTimestampMs: number | null
   samplingRate: number
+  clockOffsetMs: number
+  clockDriftPpm: number
 } {
   if (!fileContents) {
-    return { segments: [], keypressStartTimestampMs: null, samplingRate: 1000 }
+    return { segments: [], keypressStartTimestampMs: null, samplingRate: 1000, clockOffsetMs: 0, clockDriftPpm: 0 }
+  }
+  if (isLabelEventsText(fileContents)) {
+    const parsed = parseLabelEventsText(fileContents, signalStartTimestampMs)
+    const [rangeStart, rangeEnd] = signalTimeRange
+    const clamped = parsed.segments
+      .map((segment) => ({
+        ...segment,
+        start: Math.max(rangeStart, segment.start),
+        end: Math.min(rangeEnd, segment.end),
+      }))
+      .filter((segment) => segment.end > segment.start)
+    return {
+      // Event files may come out of order or overlap, while every edit assumes sorted, disjoint
+      // segments; in onset order each event is laid over the earlier ones like a new segment
+      segments: clamped
+        .sort((a, b) => a.start - b.start)
+        .reduce<LabelSegment[]>((segments, segment) => insertSegment(segments, segment), []),
+      // Event files carry no keypress clock, so per-sample exports fall back to the signal clock
+      keypressStartTimestampMs: parsed.keypressStartTimestampMs ?? signalStartTimestampMs,
+      samplingRate: parsed.samplingRate ?? 1000,
+      clockOffsetMs: parsed.clockOffsetMs ?? 0,
+      clockDriftPpm: parsed.clockDriftPpm ?? 0,
+    }
   }
   if (signalStartTimestampMs === null) {
     console.warn("Missing OpenSignals start timestamp; cannot align keypress labels.")
-    return { segments: [], keypressStartTimestampMs: null, samplingRate: 1000 }
+    return { segments: [], keypressStartTimestampMs: null, samplingRate: 1000, clockOffsetMs: 0, clockDriftPpm: 0 }
   }
 
   const lines = fileContents.split("\n")
   let dataStartIndex = 0
   let recordingStartTimestampMs: number | null = null
   let samplingRate = 1000
+  let clockOffsetMs = 0
+  let clockDriftPpm = 0
 
   for (let i = 0; i < lines.length; i++) {
     const rawLine = lines[i].trim()
@@ -64,6 +291,21 @@ export function parseKeypressLabelSegmentsWithMetadata(
       }
     }
 
+    // Written by our own export once the labels were aligned; the timestamps already include it
+    if (rawLine.startsWith(CLOCK_OFFSET_HEADER)) {
+      const parsedOffset = parseFloat(rawLine.replace(CLOCK_OFFSET_HEADER, ""))
+      if (Number.isFinite(parsedOffset)) {
+        clockOffsetMs = parsedOffset
+      }
+    }
+
+    if (rawLine.startsWith(CLOCK_DRIFT_HEADER)) {
+      const parsedDrift = parseFloat(rawLine.replace(CLOCK_DRIFT_HEADER, ""))
+      if (Number.isFinite(parsedDrift)) {
+        clockDriftPpm = parsedDrift
+      }
+    }
+
     if (rawLine.startsWith("# EndOfHeader")) {
       dataStartIndex = i + 1
       break
@@ -135,7 +377,7 @@ export function parseKeypressLabelSegmentsWithMetadata(
 
   const [rangeStart, rangeEnd] = signalTimeRange
   if (rangeEnd <= rangeStart) {
-    return { segments: [], keypressStartTimestampMs: recordingStartTimestampMs, samplingRate }
+    return { segments: [], keypressStartTimestampMs: recordingStartTimestampMs, samplingRate, clockOffsetMs, clockDriftPpm }
   }
 
   const segments = rawSegments
@@ -155,11 +397,74 @@ export function parseKeypressLabelSegmentsWithMetadata(
   return {
     segments,
     keypressStartTimestampMs: recordingStartTimestampMs,
-    samplingRate
+    samplingRate,
+    clockOffsetMs,
+    clockDriftPpm
+  }
+}
+
+export function serializeKeypressLabels({
+  segments,
+  signalStartTimestampMs,
+  keypressStartTimestampMs,
+  keypressSamplingRate,
+  clockOffsetMs = 0,
+  clockDriftPpm = 0,
+}: {
+  segments: LabelSegment[]
+  signalStartTimestampMs: number
+  keypressStartTimestampMs: number
+  keypressSamplingRate: number
+  clockOffsetMs?: number
+  clockDriftPpm?: number
+}): string {
+  const lines: string[] = []
+  const recordingDate = new Date(keypressStartTimestampMs)
+  const dateStr = `${formatLocalDate(recordingDate)} ${formatLocalTimeWithMs(recordingDate)}`
+  
+  lines.push("# Eye Tracking Keypress Labels")
+  lines.push(`# Recording started: ${dateStr}`)
+  lines.push(`# Sampling rate: ${keypressSamplingRate} Hz (${1000/keypressSamplingRate} ms per sample)`)
+  lines.push("# Columns: sample_number, timestamp_ms, elapsed_ms, label")
+  lines.push("# Labels: " + Array.from(new Set(segments.map(s => s.label))).join(", "))
+  lines.push("# Exported with modifications")
+  if (clockOffsetMs !== 0) {
+    lines.push(`${CLOCK_OFFSET_HEADER} ${clockOffsetMs.toFixed(1)} ms (applied to timestamps)`)
+  }
+  if (clockDriftPpm !== 0) {
+    lines.push(`${CLOCK_DRIFT_HEADER} ${clockDriftPpm.toFixed(3)} ppm (applied to timestamps)`)
   }
+  lines.push("# EndOfHeader")
+  
+  let sampleNumber = 0
+  const sampleIntervalMs = 1000 / keypressSamplingRate
+  
+  for (const segment of segments) {
+    const segmentStartMs = signalStartTimestampMs + (segment.start * 1000)
+    const segmentEndMs = signalStartTimestampMs + (segment.end * 1000)
+    const segmentDurationMs = segmentEndMs - segmentStartMs
+    
+    const numSamples = Math.max(1, Math.ceil(segmentDurationMs / sampleIntervalMs))
+    
+    for (let i = 0; i < numSamples; i++) {
+      const timestampMs = segmentStartMs + (i * sampleIntervalMs)
+      const elapsedMs = timestampMs - keypressStartTimestampMs
+      
+      lines.push(`${sampleNumber}\t${timestampMs.toFixed(3)}\t${elapsedMs.toFixed(3)}\t${segment.label}`)
+      sampleNumber++
+    }
+  }
+  
+  return lines.join('\n')
 }
 
 export function isEventFromBrush(target: EventTarget | null): boolean {
   return target instanceof Element && !!target.closest(".recharts-brush")
 }
 
+
+// Keyboard shortcuts stay out of the way while typing
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { createZip, readZip } from "./zip"
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function entry(path: string, text: string) {
+  return { path, data: encoder.encode(text) as Uint8Array<ArrayBuffer> }
+}
+
+describe("createZip", () => {
+  it("round-trips entries through readZip", async () => {
+    const entries = [
+      entry("manifest.json", '{"format":"oculy-project"}'),
+      entry("signal/données.txt", "1\t2\n3\t4"),
+      entry("empty.txt", ""),
+    ]
+    const files = await readZip(await createZip(entries).arrayBuffer())
+
+    expect([...files.keys()]).toEqual(["manifest.json", "signal/données.txt", "empty.txt"])
+    for (const { path, data } of entries) {
+      expect(decoder.decode(files.get(path))).toBe(decoder.decode(data))
+    }
+  })
+
+  it("writes the standard CRC-32 and the modification time into the headers", async () => {
+    const buffer = await createZip([entry("check.txt", "123456789")], new Date(2024, 4, 17, 13, 45, 30)).arrayBuffer()
+    const view = new DataView(buffer)
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50)
+    expect(view.getUint32(14, true)).toBe(0xcbf43926)
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15)
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (5 << 5) | 17)
+    // The end record points at the central directory, which repeats the checksum
+    const end = buffer.byteLength - 22
+    const centralOffset = view.getUint32(end + 16, true)
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50)
+    expect(view.getUint32(centralOffset + 16, true)).toBe(0xcbf43926)
+  })
+})
+
+describe("readZip", () => {
+  it("inflates deflated entries and skips directories from archives made by other tools", async () => {
+    // Written by Python's zipfile with ZIP_DEFLATED
+    const archive = Uint8Array.from(
+      atob(
+        "UEsDBBQAAAAIAEuMU10fuYXgIQAAADAAAAALAAAAbGFiZWxzLmpzb26rVspJTErNKVayUohWKi5JLEpV0lHAwkjKyczLVoqtBQBQSwMEFAAAAAgAS4xTXQAAAAACAAAAAAAAAAYAAABub3Rlcy8DAFBLAQIUAxQAAAAIAEuMU10fuYXgIQAAADAAAAALAAAAAAAAAAAAAACAAQAAAABsYWJlbHMuanNvblBLAQIUAxQAAAAIAEuMU10AAAAAAgAAAAAAAAAGAAAAAAAAAAAAEAD9QUoAAABub3Rlcy9QSwUGAAAAAAIAAgBtAAAAcAAAAAAA"
+      ),
+      (char) => char.charCodeAt(0)
+    )
+    const files = await readZip(archive.buffer)
+
+    expect([...files.keys()]).toEqual(["labels.json"])
+    expect(decoder.decode(files.get("labels.json"))).toBe('{"labels": ["stare", "stare", "stare", "blink"]}')
+  })
+
+  it("rejects data that is not an archive", async () => {
+    await expect(readZip(encoder.encode("not a zip at all, just text").buffer as ArrayBuffer)).rejects.toThrow(
+      "Not a valid ZIP archive"
+    )
+  })
+})
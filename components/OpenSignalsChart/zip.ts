@@ -0,0 +1,163 @@
+// Minimal ZIP support for project archives: entries are written uncompressed,
+// and reading also accepts deflated entries from archives repacked by other tools
+
+export interface ZipEntry {
+  path: string
+  data: Uint8Array<ArrayBuffer>
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const UTF8_FLAG = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+  const encoder = new TextEncoder()
+  const { time, date } = toDosDateTime(modified)
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  const centralParts: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_FILE_HEADER, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORE, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, METHOD_STORE, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+    centralParts.push(new Uint8Array(central.buffer), name)
+    offset += 30 + name.length + size
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralParts, new Uint8Array(end.buffer)], { type: "application/zip" })
+}
+
+async function inflateRaw(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof DecompressionStream === "undefined") {
+    throw new Error("This browser cannot read compressed archive entries")
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+  // The record sits at the end, followed by a comment of at most 64 KiB
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff)
+  for (let i = view.byteLength - 22; i >= minOffset; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) return i
+  }
+  return -1
+}
+
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder()
+  const endOffset = findEndOfCentralDirectory(view)
+  if (endOffset < 0) {
+    throw new Error("Not a valid ZIP archive")
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  let cursor = view.getUint32(endOffset + 16, true)
+  const files = new Map<string, Uint8Array<ArrayBuffer>>()
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupt ZIP central directory")
+    }
+    const method = view.getUint16(cursor + 10, true)
+    const compressedSize = view.getUint32(cursor + 20, true)
+    const nameLength = view.getUint16(cursor + 28, true)
+    const extraLength = view.getUint16(cursor + 30, true)
+    const commentLength = view.getUint16(cursor + 32, true)
+    const localOffset = view.getUint32(cursor + 42, true)
+    const path = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength))
+    cursor += 46 + nameLength + extraLength + commentLength
+
+    if (path.endsWith("/")) continue
+
+    // Local headers may carry a different extra field than the central directory
+    const dataStart =
+      localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const data = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    if (method === METHOD_STORE) {
+      files.set(path, data)
+    } else if (method === METHOD_DEFLATE) {
+      files.set(path, await inflateRaw(data))
+    } else {
+      throw new Error(`Unsupported compression in archive entry ${path}`)
+    }
+  }
+
+  return files
+}
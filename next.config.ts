@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
+import packageJson from "./package.json";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Inlined at build time so the client bundle carries the version, not the whole package.json
+  env: {
+    APP_VERSION: packageJson.version,
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,20 @@
+declare module "jsfive" {
+  type Attributes = Record<string, unknown>
+
+  export class Dataset {
+    readonly attrs: Attributes
+    readonly shape: number[]
+    readonly dtype: string
+    readonly value: ArrayLike<number>
+  }
+
+  export class Group {
+    readonly attrs: Attributes
+    readonly keys: string[]
+    get(path: string): Group | Dataset
+  }
+
+  export class File extends Group {
+    constructor(buffer: ArrayBuffer, filename?: string)
+  }
+}